@@ -2,6 +2,8 @@ import type {NextConfig} from 'next';
 
 const nextConfig: NextConfig = {
   /* config options here */
+  // ffmpeg-static resolves its binary relative to its own package directory.
+  serverExternalPackages: ['ffmpeg-static'],
   typescript: {
     ignoreBuildErrors: true,
   },
@@ -16,6 +18,12 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**',
       },
+      {
+        protocol: 'https',
+        hostname: 'firebasestorage.googleapis.com',
+        port: '',
+        pathname: '/**',
+      },
     ],
   },
 };
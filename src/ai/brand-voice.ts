@@ -0,0 +1,51 @@
+/**
+ * @fileOverview The brand voice passed to the caption and hashtag flows, and
+ * the instructions the prompts get from it.
+ */
+
+import {z} from 'genkit';
+
+export const BrandVoiceSchema = z.object({
+  brandName: z.string().describe('The name of the brand.'),
+  voice: z.string().describe('The voice and tone to write in.'),
+  doWords: z.array(z.string()).describe('Words and phrases the brand likes to use.'),
+  dontWords: z.array(z.string()).describe('Words and phrases the brand never uses.'),
+  emojiPolicy: z.enum(['none', 'sparing', 'liberal']).describe('How freely to use emoji.'),
+  defaultCta: z.string().describe('The call to action to use unless the prompt asks for another.'),
+  sampleCaptions: z.array(z.string()).describe('Past captions that show the voice.'),
+  mandatoryHashtags: z.array(z.string()).describe('Hashtags every post must include.'),
+  bannedHashtags: z.array(z.string()).describe('Hashtags the brand never uses.'),
+});
+export type BrandVoice = z.infer<typeof BrandVoiceSchema>;
+
+const EMOJI_INSTRUCTIONS: Record<BrandVoice['emojiPolicy'], string> = {
+  none: 'Do not use any emoji.',
+  sparing: 'Use at most one or two emoji.',
+  liberal: 'Use emoji freely.',
+};
+
+/** Writes the brand guidelines for a caption prompt. */
+export function describeCaptionVoice(brand: BrandVoice): string {
+  const lines = [`Write as the brand "${brand.brandName}".`];
+  if (brand.voice) lines.push(`Voice and tone: ${brand.voice}`);
+  if (brand.doWords.length) lines.push(`Use words like: ${brand.doWords.join(', ')}.`);
+  if (brand.dontWords.length) lines.push(`Never use these words: ${brand.dontWords.join(', ')}.`);
+  lines.push(EMOJI_INSTRUCTIONS[brand.emojiPolicy]);
+  if (brand.defaultCta) lines.push(`End with this call to action unless the ad description asks for another: ${brand.defaultCta}`);
+  if (brand.sampleCaptions.length) {
+    lines.push('Match the style of these past captions:', ...brand.sampleCaptions.map(caption => `---\n${caption}`), '---');
+  }
+  lines.push('Do not include hashtags in the caption; they are added separately.');
+  return lines.join('\n');
+}
+
+/** Writes the brand guidelines for a hashtag prompt. */
+export function describeHashtagVoice(brand: BrandVoice): string {
+  const lines = [`The hashtags are for the brand "${brand.brandName}".`];
+  if (brand.voice) lines.push(`The brand's voice: ${brand.voice}`);
+  if (brand.mandatoryHashtags.length) {
+    lines.push(`These hashtags are always added, so do not repeat them: ${brand.mandatoryHashtags.join(' ')}`);
+  }
+  if (brand.bannedHashtags.length) lines.push(`Never suggest these hashtags: ${brand.bannedHashtags.join(' ')}`);
+  return lines.join('\n');
+}
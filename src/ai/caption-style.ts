@@ -0,0 +1,57 @@
+/**
+ * @fileOverview The caption style options passed to the caption flows, and
+ * the requirements the prompts get from them.
+ */
+
+import {z} from 'genkit';
+import {
+  CALL_TO_ACTION_LABELS,
+  CAPTION_LANGUAGES,
+  CAPTION_LENGTH_RANGES,
+  EMOJI_RANGES,
+} from '@/lib/caption-style';
+import type {CaptionStyle} from '@/lib/types';
+
+export const CaptionStyleSchema = z.object({
+  tone: z.enum(['professional', 'playful', 'luxury', 'friendly', 'bold', 'inspirational']).optional(),
+  length: z.enum(['short', 'medium', 'long']).optional(),
+  emoji: z.enum(['none', 'sparing', 'liberal']).optional(),
+  cta: z.enum(['shop_now', 'link_in_bio', 'comment', 'dm']).optional(),
+  language: z.string().optional().describe('BCP 47 code of the language to write in.'),
+});
+
+const CTA_INSTRUCTIONS: Record<NonNullable<CaptionStyle['cta']>, string> = {
+  shop_now: 'End by asking the reader to shop now.',
+  link_in_bio: 'End by pointing the reader to the link in bio.',
+  comment: 'End by asking the reader to comment.',
+  dm: 'End by asking the reader to send a direct message.',
+};
+
+/**
+ * Writes the style requirements for a caption prompt, or returns undefined if
+ * the style sets nothing.
+ */
+export function describeCaptionStyle(style: CaptionStyle): string | undefined {
+  const lines: string[] = [];
+  if (style.tone) lines.push(`Tone: ${style.tone}.`);
+  if (style.length) {
+    const {min, max} = CAPTION_LENGTH_RANGES[style.length];
+    lines.push(min > 0 ? `Length: between ${min} and ${max} characters.` : `Length: at most ${max} characters.`);
+  }
+  if (style.emoji) {
+    const {max} = EMOJI_RANGES[style.emoji];
+    lines.push(
+      max === 0 ? 'Emoji: none at all.' : max === Infinity ? 'Emoji: use them generously.' : `Emoji: at most ${max}.`
+    );
+  }
+  if (style.cta) lines.push(`Call to action (${CALL_TO_ACTION_LABELS[style.cta]}): ${CTA_INSTRUCTIONS[style.cta]}`);
+  if (style.language) {
+    lines.push(`Language: write the whole caption in ${CAPTION_LANGUAGES[style.language] ?? style.language}.`);
+  }
+  if (lines.length === 0) {
+    return undefined;
+  }
+  return ['The caption must meet these requirements, which take precedence over any brand guidelines:', ...lines].join(
+    '\n'
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview The ad creative shown to the caption and hashtag flows, so
+ * they write about what an uploaded image or video actually shows rather than
+ * only what the prompt says.
+ */
+
+import {z} from 'genkit';
+
+/** How many images or video frames the model is shown at most. */
+export const MAX_CREATIVE_IMAGES = 6;
+
+export const CreativeSchema = z
+  .array(z.string())
+  .max(MAX_CREATIVE_IMAGES)
+  .describe('Data URIs of the uploaded images, or of frames sampled from an uploaded video.');
+
+/** Handlebars for a prompt whose input has an optional `creative` field. */
+export const CREATIVE_TEMPLATE = `{{#if creative}}
+
+This is the ad's creative, in order (frames of a video are in the order they appear):
+{{#each creative}}{{media url=this}}{{/each}}
+Look at what the creative actually shows, such as the product, the people, the setting, colours and any text in it, and combine that with the description. Where they disagree, trust the creative.
+{{/if}}`;
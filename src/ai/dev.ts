@@ -3,7 +3,9 @@ import { config } from 'dotenv';
 config();
 
 import '@/ai/flows/generate-ad-caption.ts';
+import '@/ai/flows/generate-ad-caption-variants.ts';
 import '@/ai/flows/generate-ad-video.ts';
 import '@/ai/flows/generate-ad-image.ts';
 import '@/ai/flows/generate-ad-hashtags.ts';
+import '@/ai/flows/localize-ad-content.ts';
 import '@/ai/flows/publish-instagram-post.ts';
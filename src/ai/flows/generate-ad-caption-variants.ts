@@ -0,0 +1,126 @@
+'use server';
+
+/**
+ * @fileOverview Generates several Instagram ad captions for one prompt, each
+ * written from a different angle, so the marketer can compare them.
+ *
+ * - generateAdCaptionVariants - A function that generates one caption per requested angle.
+ * - GenerateAdCaptionVariantsInput - The input type for the generateAdCaptionVariants function.
+ * - GenerateAdCaptionVariantsOutput - The return type for the generateAdCaptionVariants function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import type {CaptionAngle} from '@/lib/types';
+import {BrandVoiceSchema, describeCaptionVoice} from '@/ai/brand-voice';
+import {CaptionStyleSchema, describeCaptionStyle} from '@/ai/caption-style';
+import {CREATIVE_TEMPLATE, CreativeSchema} from '@/ai/creative';
+import {checkCaptionStyle} from '@/lib/caption-style';
+
+const ANGLE_INSTRUCTIONS: Record<CaptionAngle, string> = {
+  benefit: 'Lead with the main benefit for the customer.',
+  urgency: 'Create urgency with a reason to act now, such as a limited offer or deadline.',
+  storytelling: 'Tell a short story the audience can see themselves in.',
+  question: 'Open with a question that hooks the reader.',
+  social_proof: 'Build trust by pointing to what other customers say or do.',
+};
+
+const CaptionAngleSchema = z.enum(['benefit', 'urgency', 'storytelling', 'question', 'social_proof']);
+
+const GenerateAdCaptionVariantsInputSchema = z.object({
+  prompt: z.string().describe('A prompt describing the ad for which captions should be generated.'),
+  angles: z.array(CaptionAngleSchema).min(1).describe('The angles to write a caption from, one caption each.'),
+  brand: BrandVoiceSchema.optional().describe('The brand voice to write in.'),
+  style: CaptionStyleSchema.optional().describe('Tone, length, emoji, call to action and language.'),
+  creative: CreativeSchema.optional(),
+});
+export type GenerateAdCaptionVariantsInput = z.infer<typeof GenerateAdCaptionVariantsInputSchema>;
+
+const GenerateAdCaptionVariantsOutputSchema = z.object({
+  variants: z
+    .array(z.object({angle: CaptionAngleSchema, caption: z.string()}))
+    .describe('One caption per requested angle, in the order requested.'),
+});
+export type GenerateAdCaptionVariantsOutput = z.infer<typeof GenerateAdCaptionVariantsOutputSchema>;
+
+export async function generateAdCaptionVariants(
+  input: GenerateAdCaptionVariantsInput
+): Promise<GenerateAdCaptionVariantsOutput> {
+  return generateAdCaptionVariantsFlow(input);
+}
+
+const generateAdCaptionVariantsPrompt = ai.definePrompt({
+  name: 'generateAdCaptionVariantsPrompt',
+  input: {
+    schema: z.object({
+      prompt: z.string(),
+      angles: z.array(z.object({angle: CaptionAngleSchema, instruction: z.string()})),
+      brandVoice: z.string().optional(),
+      styleRequirements: z.string().optional(),
+      corrections: z.string().optional(),
+      creative: CreativeSchema.optional(),
+    }),
+  },
+  output: {schema: GenerateAdCaptionVariantsOutputSchema},
+  prompt: `Generate compelling Instagram ad captions for the following ad description: {{{prompt}}}.
+
+Write one caption for each of these angles, and make each one clearly different from the others:
+{{#each angles}}
+- {{{angle}}}: {{{instruction}}}
+{{/each}}
+
+Every caption should be engaging and encourage users to take action.
+${CREATIVE_TEMPLATE}
+{{#if brandVoice}}
+
+{{{brandVoice}}}
+{{/if}}
+{{#if styleRequirements}}
+
+{{{styleRequirements}}}
+{{/if}}
+{{#if corrections}}
+
+Earlier attempts broke the requirements:
+{{{corrections}}}
+{{/if}}`,
+});
+
+const generateAdCaptionVariantsFlow = ai.defineFlow(
+  {
+    name: 'generateAdCaptionVariantsFlow',
+    inputSchema: GenerateAdCaptionVariantsInputSchema,
+    outputSchema: GenerateAdCaptionVariantsOutputSchema,
+  },
+  async input => {
+    const generate = async (angles: CaptionAngle[], corrections?: string) => {
+      const {output} = await generateAdCaptionVariantsPrompt({
+        prompt: input.prompt,
+        angles: angles.map(angle => ({angle, instruction: ANGLE_INSTRUCTIONS[angle]})),
+        brandVoice: input.brand && describeCaptionVoice(input.brand),
+        styleRequirements: input.style && describeCaptionStyle(input.style),
+        corrections,
+        creative: input.creative,
+      });
+      // Keep the requested order and drop anything the model added on its own.
+      return angles.flatMap(angle => output!.variants.filter(v => v.angle === angle).slice(0, 1));
+    };
+    let variants = await generate(input.angles);
+
+    // Variants that miss the measurable requirements get one more try.
+    const failing = variants
+      .map(variant => ({angle: variant.angle, problems: checkCaptionStyle(variant.caption, input.style)}))
+      .filter(({problems}) => problems.length > 0);
+    if (failing.length > 0) {
+      const retried = await generate(
+        failing.map(({angle}) => angle),
+        failing.map(({angle, problems}) => `- ${angle}: ${problems.join(' ')}`).join('\n')
+      );
+      variants = variants.map(variant => retried.find(v => v.angle === variant.angle) ?? variant);
+    }
+    if (variants.length === 0) {
+      throw new Error('No caption variants were generated.');
+    }
+    return {variants};
+  }
+);
@@ -10,9 +10,18 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {BrandVoiceSchema, describeCaptionVoice} from '@/ai/brand-voice';
+import {CaptionStyleSchema, describeCaptionStyle} from '@/ai/caption-style';
+import {CREATIVE_TEMPLATE, CreativeSchema} from '@/ai/creative';
+import {checkCaptionStyle} from '@/lib/caption-style';
 
 const GenerateAdCaptionInputSchema = z.object({
   prompt: z.string().describe('A prompt describing the ad for which a caption should be generated.'),
+  previousCaption: z.string().optional().describe('A caption the user wants replaced.'),
+  feedback: z.string().optional().describe('What the user wants changed, e.g. "shorter" or "more playful".'),
+  brand: BrandVoiceSchema.optional().describe('The brand voice to write in.'),
+  style: CaptionStyleSchema.optional().describe('Tone, length, emoji, call to action and language.'),
+  creative: CreativeSchema.optional(),
 });
 export type GenerateAdCaptionInput = z.infer<typeof GenerateAdCaptionInputSchema>;
 
@@ -27,9 +36,31 @@ export async function generateAdCaption(input: GenerateAdCaptionInput): Promise<
 
 const generateAdCaptionPrompt = ai.definePrompt({
   name: 'generateAdCaptionPrompt',
-  input: {schema: GenerateAdCaptionInputSchema},
+  input: {
+    schema: GenerateAdCaptionInputSchema.omit({brand: true, style: true}).extend({
+      brandVoice: z.string().optional(),
+      styleRequirements: z.string().optional(),
+    }),
+  },
   output: {schema: GenerateAdCaptionOutputSchema},
-  prompt: `Generate a compelling Instagram ad caption for the following ad description: {{{prompt}}}. The caption should be engaging and encourage users to take action.`,
+  prompt: `Generate a compelling Instagram ad caption for the following ad description: {{{prompt}}}. The caption should be engaging and encourage users to take action.
+${CREATIVE_TEMPLATE}
+{{#if brandVoice}}
+
+{{{brandVoice}}}
+{{/if}}
+{{#if styleRequirements}}
+
+{{{styleRequirements}}}
+{{/if}}
+{{#if previousCaption}}
+
+Write a new caption to replace this one: {{{previousCaption}}}
+{{/if}}
+{{#if feedback}}
+
+Follow this feedback from the user: {{{feedback}}}
+{{/if}}`,
 });
 
 const generateAdCaptionFlow = ai.defineFlow(
@@ -38,8 +69,24 @@ const generateAdCaptionFlow = ai.defineFlow(
     inputSchema: GenerateAdCaptionInputSchema,
     outputSchema: GenerateAdCaptionOutputSchema,
   },
-  async input => {
-    const {output} = await generateAdCaptionPrompt(input);
+  async ({brand, style, ...input}) => {
+    const promptInput = {
+      ...input,
+      brandVoice: brand && describeCaptionVoice(brand),
+      styleRequirements: style && describeCaptionStyle(style),
+    };
+    let {output} = await generateAdCaptionPrompt(promptInput);
+
+    // Length and emoji can be measured; a caption that misses them gets one
+    // more try with the problems spelled out.
+    const problems = checkCaptionStyle(output!.caption, style);
+    if (problems.length > 0) {
+      ({output} = await generateAdCaptionPrompt({
+        ...promptInput,
+        previousCaption: output!.caption,
+        feedback: [input.feedback, ...problems].filter(Boolean).join(' '),
+      }));
+    }
     return output!;
   }
 );
@@ -3,6 +3,9 @@
 
 /**
  * @fileOverview Generates relevant hashtags for an ad based on the provided prompt.
+ * The model suggests broad, niche and branded hashtags separately, and they
+ * are combined according to the requested mix after removing duplicates and
+ * banned hashtags.
  *
  * - generateAdHashtags - A function that generates hashtags for an ad.
  * - GenerateAdHashtagsInput - The input type for the generateAdHashtags function.
@@ -11,9 +14,21 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {BrandVoiceSchema, describeHashtagVoice} from '@/ai/brand-voice';
+import {CREATIVE_TEMPLATE, CreativeSchema} from '@/ai/creative';
+import {DEFAULT_HASHTAG_COUNT, DEFAULT_HASHTAG_MIX, mixHashtags, tierCounts} from '@/lib/hashtags';
 
 const GenerateAdHashtagsInputSchema = z.object({
   prompt: z.string().describe('The ad prompt to generate hashtags for.'),
+  previousHashtags: z.array(z.string()).optional().describe('Hashtags the user wants replaced.'),
+  feedback: z.string().optional().describe('What the user wants changed, e.g. "more niche".'),
+  brand: BrandVoiceSchema.optional().describe('The brand the hashtags are for.'),
+  mix: z
+    .object({broad: z.number(), niche: z.number(), branded: z.number()})
+    .optional()
+    .describe('Relative weights of broad, niche and branded hashtags.'),
+  count: z.number().optional().describe('How many hashtags to return.'),
+  creative: CreativeSchema.optional(),
 });
 export type GenerateAdHashtagsInput = z.infer<typeof GenerateAdHashtagsInputSchema>;
 
@@ -26,15 +41,49 @@ export async function generateAdHashtags(input: GenerateAdHashtagsInput): Promis
   return generateAdHashtagsFlow(input);
 }
 
+const HashtagSuggestionsSchema = z.object({
+  broad: z.array(z.string()).describe('Popular hashtags with millions of posts.'),
+  niche: z.array(z.string()).describe('Specific hashtags used by a focused community.'),
+  branded: z.array(z.string()).describe('Hashtags for the brand, product or campaign.'),
+});
+
+// A few spare suggestions per tier make up for the ones filtered out.
+const SPARE_SUGGESTIONS = 3;
+
 const prompt = ai.definePrompt({
   name: 'generateAdHashtagsPrompt',
-  input: {schema: GenerateAdHashtagsInputSchema},
-  output: {schema: GenerateAdHashtagsOutputSchema},
+  input: {
+    schema: GenerateAdHashtagsInputSchema.omit({brand: true, mix: true, count: true}).extend({
+      brandVoice: z.string().optional(),
+      broadCount: z.number(),
+      nicheCount: z.number(),
+      brandedCount: z.number(),
+    }),
+  },
+  output: {schema: HashtagSuggestionsSchema},
   prompt: `You are an expert in generating relevant hashtags for ads.
 
-  Based on the following ad prompt, generate an array of relevant hashtags to maximize the ad's reach.
+  Based on the following ad prompt, suggest hashtags in three tiers to maximize the ad's reach:
+  - {{broadCount}} broad hashtags: popular tags with millions of posts that bring wide exposure.
+  - {{nicheCount}} niche hashtags: specific tags with a focused, engaged community where the post can rank.
+  - {{brandedCount}} branded hashtags: tags for the brand, product or campaign itself.
+
+  Only suggest hashtags people really use. Never use engagement bait such as #like4like or #followforfollow.
 
   Prompt: {{{prompt}}}
+  ${CREATIVE_TEMPLATE}
+  {{#if brandVoice}}
+
+  {{{brandVoice}}}
+  {{/if}}
+  {{#if previousHashtags}}
+
+  The user wants a new set instead of: {{#each previousHashtags}}{{{this}}} {{/each}}
+  {{/if}}
+  {{#if feedback}}
+
+  Follow this feedback from the user: {{{feedback}}}
+  {{/if}}
 
   Hashtags:`,
 });
@@ -45,8 +94,15 @@ const generateAdHashtagsFlow = ai.defineFlow(
     inputSchema: GenerateAdHashtagsInputSchema,
     outputSchema: GenerateAdHashtagsOutputSchema,
   },
-  async input => {
-    const {output} = await prompt(input);
-    return output!;
+  async ({brand, mix = DEFAULT_HASHTAG_MIX, count = DEFAULT_HASHTAG_COUNT, ...input}) => {
+    const counts = tierCounts(mix, count);
+    const {output} = await prompt({
+      ...input,
+      brandVoice: brand && describeHashtagVoice(brand),
+      broadCount: counts.broad && counts.broad + SPARE_SUGGESTIONS,
+      nicheCount: counts.niche && counts.niche + SPARE_SUGGESTIONS,
+      brandedCount: counts.branded && counts.branded + SPARE_SUGGESTIONS,
+    });
+    return {hashtags: mixHashtags(output!, mix, count, brand?.bannedHashtags)};
   }
 );
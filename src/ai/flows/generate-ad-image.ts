@@ -13,6 +13,8 @@ import {z} from 'genkit';
 
 const GenerateAdImageInputSchema = z.object({
   prompt: z.string().describe('The prompt to generate the ad image from.'),
+  feedback: z.string().optional().describe('What the user wants changed compared to the previous image.'),
+  aspectRatio: z.string().optional().describe('The aspect ratio to compose the image for, e.g. "4:5".'),
 });
 
 export type GenerateAdImageInput = z.infer<typeof GenerateAdImageInputSchema>;
@@ -34,9 +36,16 @@ const generateAdImageFlow = ai.defineFlow(
     outputSchema: GenerateAdImageOutputSchema,
   },
   async input => {
+    // The model takes no size setting, so the format is asked for in the
+    // prompt; the caller crops or pads whatever comes back.
+    const instructions = [
+      input.prompt,
+      input.aspectRatio && `Compose the image for a ${input.aspectRatio} (width:height) frame.`,
+      input.feedback && `Adjust the image as follows: ${input.feedback}`,
+    ];
     const {media} = await ai.generate({
       model: 'googleai/gemini-2.0-flash-preview-image-generation',
-      prompt: input.prompt,
+      prompt: instructions.filter(Boolean).join('\n\n'),
       config: {
         responseModalities: ['TEXT', 'IMAGE'],
       },
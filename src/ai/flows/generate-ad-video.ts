@@ -14,6 +14,11 @@ import { MediaPart } from 'genkit';
 
 const GenerateAdVideoInputSchema = z.object({
   prompt: z.string().describe('The prompt to generate the ad video.'),
+  feedback: z.string().optional().describe('What the user wants changed compared to the previous video.'),
+  aspectRatio: z
+    .enum(['16:9', '9:16'])
+    .optional()
+    .describe('The aspect ratio to generate; the model supports only these two. Defaults to 16:9.'),
 });
 
 export type GenerateAdVideoInput = z.infer<typeof GenerateAdVideoInputSchema>;
@@ -43,10 +48,10 @@ const generateAdVideoFlow = ai.defineFlow(
   async (input) => {
     let { operation } = await ai.generate({
       model: 'googleai/veo-2.0-generate-001',
-      prompt: input.prompt,
+      prompt: input.feedback ? `${input.prompt}\n\nAdjust the video as follows: ${input.feedback}` : input.prompt,
       config: {
         durationSeconds: 5,
-        aspectRatio: '1:1',
+        aspectRatio: input.aspectRatio ?? '16:9',
       },
     });
 
@@ -0,0 +1,73 @@
+'use server';
+
+/**
+ * @fileOverview Adapts an ad's caption and hashtags to another market. The
+ * result is rewritten for the local audience rather than translated word for
+ * word, with hashtags people in that market actually use.
+ *
+ * - localizeAdContent - A function that adapts a caption and hashtags to one locale.
+ * - LocalizeAdContentInput - The input type for the localizeAdContent function.
+ * - LocalizeAdContentOutput - The return type for the localizeAdContent function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import {BrandVoiceSchema, describeCaptionVoice} from '@/ai/brand-voice';
+
+const LocalizeAdContentInputSchema = z.object({
+  prompt: z.string().describe('The description the ad was generated from.'),
+  caption: z.string().describe('The caption to adapt.'),
+  hashtags: z.array(z.string()).describe('The hashtags of the original caption.'),
+  locale: z.string().describe('BCP 47 code of the market to adapt to, e.g. "es-MX".'),
+  brand: BrandVoiceSchema.optional().describe('The brand voice to write in.'),
+});
+export type LocalizeAdContentInput = z.infer<typeof LocalizeAdContentInputSchema>;
+
+const LocalizeAdContentOutputSchema = z.object({
+  caption: z.string().describe('The caption adapted to the market.'),
+  hashtags: z.array(z.string()).describe('Hashtags popular in the market.'),
+});
+export type LocalizeAdContentOutput = z.infer<typeof LocalizeAdContentOutputSchema>;
+
+export async function localizeAdContent(input: LocalizeAdContentInput): Promise<LocalizeAdContentOutput> {
+  return localizeAdContentFlow(input);
+}
+
+const localizeAdContentPrompt = ai.definePrompt({
+  name: 'localizeAdContentPrompt',
+  input: {
+    schema: LocalizeAdContentInputSchema.omit({brand: true}).extend({brandVoice: z.string().optional()}),
+  },
+  output: {schema: LocalizeAdContentOutputSchema},
+  prompt: `You adapt Instagram ads for the {{{locale}}} market.
+
+The ad was described as: {{{prompt}}}
+
+Original caption:
+{{{caption}}}
+
+Original hashtags: {{#each hashtags}}{{{this}}} {{/each}}
+
+Rewrite the caption in the language of {{{locale}}} for people in that market. Do not translate it literally: adapt idioms, humour, references, formality, currency and date formats, and the call to action to what works locally, while keeping the message and the offer the same.
+
+Then choose hashtags that people in that market actually use and search for, in their language where that is common. Keep brand names and product names as they are.
+{{#if brandVoice}}
+
+{{{brandVoice}}}
+{{/if}}`,
+});
+
+const localizeAdContentFlow = ai.defineFlow(
+  {
+    name: 'localizeAdContentFlow',
+    inputSchema: LocalizeAdContentInputSchema,
+    outputSchema: LocalizeAdContentOutputSchema,
+  },
+  async ({brand, ...input}) => {
+    const {output} = await localizeAdContentPrompt({
+      ...input,
+      brandVoice: brand && describeCaptionVoice(brand),
+    });
+    return output!;
+  }
+);
@@ -11,23 +11,64 @@
 
 import { ai } from '@/ai/genkit';
 import { z } from 'genkit';
-import { doc, getDoc } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { publishToInstagram } from '@/services/instagram';
+import { commentOnMedia, publishToInstagram } from '@/services/instagram';
+import { getInstagramCredentials } from '@/services/instagram-credentials';
+import { placeHashtags } from '@/lib/ad-content';
 
 const PublishInstagramPostInputSchema = z.object({
   userId: z.string().describe('The ID of the user publishing the post.'),
+  accountId: z.string().describe('The connected Instagram account to publish to.'),
   caption: z.string().describe('The ad caption.'),
   hashtags: z.array(z.string()).describe('An array of hashtags.'),
-  mediaDataUri: z.string().describe('The data URI of the image or video to post.'),
-  mediaType: z.enum(['image', 'video']).describe("The type of media being posted."),
+  media: z
+    .array(
+      z.object({
+        dataUri: z.string().describe('The data URI of the image or video to post.'),
+        mediaType: z.enum(['image', 'video']).describe('The type of media being posted.'),
+        coverTimeSeconds: z
+          .number()
+          .min(0)
+          .optional()
+          .describe("For videos, the time of the frame used as the reel's cover."),
+      })
+    )
+    .min(1)
+    .max(10)
+    .describe('The ordered media to post. More than one item is published as a carousel.'),
+  targets: z
+    .array(z.enum(['FEED', 'REELS', 'STORIES']))
+    .min(1)
+    .optional()
+    .describe('Where to publish the media: feed, reels, stories, or any combination. Defaults to feed.'),
+  storyFrames: z
+    .array(z.number().int().min(0))
+    .optional()
+    .describe('For stories, the indexes of the media items to post as frames. Defaults to all of them.'),
+  hashtagPlacement: z
+    .enum(['caption', 'first_comment', 'none'])
+    .optional()
+    .describe('Whether the hashtags follow the caption, go in the first comment, or are left out. Defaults to the caption.'),
 });
 export type PublishInstagramPostInput = z.infer<
   typeof PublishInstagramPostInputSchema
 >;
 
+const PublishedPostSchema = z.object({
+  accountId: z.string().describe('The connected account the post was published to.'),
+  target: z.enum(['FEED', 'REELS', 'STORIES']).describe('Where the post was published.'),
+  frame: z.number().optional().describe('For stories, the index of the media item shown in the frame.'),
+  postId: z.string().optional().describe('The ID of the published Instagram post.'),
+  error: z.string().optional().describe('Why publishing to this target failed.'),
+  commentError: z
+    .string()
+    .optional()
+    .describe('Why the hashtags could not be posted as the first comment.'),
+});
+
 const PublishInstagramPostOutputSchema = z.object({
-  postId: z.string().describe('The ID of the successfully published Instagram post.'),
+  posts: z
+    .array(PublishedPostSchema)
+    .describe('One entry per published post. Each story frame is its own entry.'),
 });
 export type PublishInstagramPostOutput = z.infer<
   typeof PublishInstagramPostOutputSchema
@@ -39,6 +80,28 @@ export async function publishInstagramPost(
   return publishInstagramPostFlow(input);
 }
 
+/**
+ * Posts the hashtags as the first comment right after publishing. Stories
+ * take no comments. A failed comment is reported with the post rather than
+ * failing it, since the post is already live.
+ */
+async function postFirstComment(
+  accessToken: string,
+  postId: string,
+  target: 'FEED' | 'REELS' | 'STORIES',
+  comment: string | undefined
+): Promise<{ commentError?: string }> {
+  if (!comment || target === 'STORIES') {
+    return {};
+  }
+  try {
+    await commentOnMedia(accessToken, postId, comment);
+    return {};
+  } catch (error) {
+    return { commentError: error instanceof Error ? error.message : 'An unknown error occurred.' };
+  }
+}
+
 const publishInstagramPostFlow = ai.defineFlow(
   {
     name: 'publishInstagramPostFlow',
@@ -47,34 +110,53 @@ const publishInstagramPostFlow = ai.defineFlow(
   },
   async (input) => {
     // 1. Fetch user credentials from Firestore
-    const userDocRef = doc(db, 'users', input.userId);
-    const userDoc = await getDoc(userDocRef);
+    const { accountId, accessToken, businessAccountId } = await getInstagramCredentials(
+      input.userId,
+      input.accountId
+    );
 
-    if (!userDoc.exists()) {
-      throw new Error('User not found.');
-    }
-    const userData = userDoc.data();
-    const accessToken = userData.instagramAccessToken;
-    const businessAccountId = userData.instagramBusinessAccountId;
+    // 2. Add the hashtags to the caption, or set them aside for the first comment
+    const { caption, comment } = placeHashtags(input.caption, input.hashtags, input.hashtagPlacement);
 
-    if (!accessToken || !businessAccountId) {
-      throw new Error(
-        'Instagram credentials are not configured. Please add them on the Credentials page.'
-      );
+    // 3. Call the Instagram service once per target. Stories hold a single
+    // media item, so every item becomes its own story frame, tagged with its
+    // index so a retry can skip the frames that went out. A failing target
+    // does not stop the others from being published.
+    const posts: z.infer<typeof PublishedPostSchema>[] = [];
+    for (const target of input.targets ?? ['FEED']) {
+      const batches =
+        target === 'STORIES'
+          ? (input.storyFrames ?? input.media.map((_, frame) => frame))
+              .filter(frame => frame < input.media.length)
+              .map(frame => ({ media: [input.media[frame]], tag: { frame } }))
+          : [{ media: input.media, tag: {} }];
+      for (const { media, tag } of batches) {
+        try {
+          const postId = await publishToInstagram(
+            accessToken,
+            businessAccountId,
+            caption,
+            media,
+            target
+          );
+          posts.push({
+            accountId,
+            target,
+            ...tag,
+            postId,
+            ...(await postFirstComment(accessToken, postId, target, comment)),
+          });
+        } catch (error) {
+          posts.push({
+            accountId,
+            target,
+            ...tag,
+            error: error instanceof Error ? error.message : 'An unknown error occurred.',
+          });
+        }
+      }
     }
 
-    // 2. Format caption with hashtags
-    const fullCaption = `${input.caption}\n\n${input.hashtags.join(' ')}`;
-
-    // 3. Call the Instagram service to publish the post
-    const postId = await publishToInstagram(
-      accessToken,
-      businessAccountId,
-      fullCaption,
-      input.mediaDataUri,
-      input.mediaType
-    );
-
-    return { postId };
+    return { posts };
   }
 );
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { consumeOAuthState, connectInstagramAccount } from '@/services/facebook-connections';
+import { exchangeCodeForToken, listInstagramAccounts } from '@/services/facebook-oauth';
+import { GET } from './route';
+
+vi.mock('@/lib/firebase-admin', () => ({ adminDb: {} }));
+vi.mock('@/services/facebook-connections', () => ({
+  consumeOAuthState: vi.fn(),
+  connectInstagramAccount: vi.fn(),
+  savePendingConnection: vi.fn(),
+}));
+vi.mock('@/services/facebook-oauth', () => ({
+  exchangeCodeForToken: vi.fn(),
+  listInstagramAccounts: vi.fn(),
+}));
+
+function callback(query: string, cookieState?: string) {
+  return new NextRequest(`https://app.example.com/api/auth/facebook/callback?${query}`, {
+    headers: cookieState ? { cookie: `fb_oauth_state=${cookieState}` } : {},
+  });
+}
+
+function redirectParams(response: Response) {
+  return new URL(response.headers.get('location')!).searchParams;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(exchangeCodeForToken).mockResolvedValue({ accessToken: 'long-lived' });
+  vi.mocked(listInstagramAccounts).mockResolvedValue([{ id: 'ig-1', username: 'acme', pageId: 'p1', pageName: 'Acme' }]);
+});
+
+describe('GET /api/auth/facebook/callback', () => {
+  it('connects the account of the user who started the login in this browser', async () => {
+    vi.mocked(consumeOAuthState).mockResolvedValue('alice');
+
+    const response = await GET(callback('state=state-1&code=good-code', 'state-1'));
+
+    expect(redirectParams(response).get('connected')).toBe('acme');
+    expect(connectInstagramAccount).toHaveBeenCalledWith({}, 'alice', { accessToken: 'long-lived' }, expect.anything());
+    expect(response.headers.get('set-cookie')).toContain('fb_oauth_state=;');
+  });
+
+  it('refuses a state that was not started in this browser', async () => {
+    const other = await GET(callback('state=state-1&code=good-code', 'state-2'));
+    const none = await GET(callback('state=state-1&code=good-code'));
+
+    expect(redirectParams(other).get('connectError')).toMatch(/session expired/);
+    expect(redirectParams(none).get('connectError')).toMatch(/session expired/);
+    expect(consumeOAuthState).not.toHaveBeenCalled();
+    expect(exchangeCodeForToken).not.toHaveBeenCalled();
+  });
+
+  it('refuses a state that was already used or timed out', async () => {
+    vi.mocked(consumeOAuthState).mockResolvedValue(null);
+
+    const response = await GET(callback('state=state-1&code=good-code', 'state-1'));
+
+    expect(redirectParams(response).get('connectError')).toMatch(/session expired/);
+    expect(exchangeCodeForToken).not.toHaveBeenCalled();
+  });
+});
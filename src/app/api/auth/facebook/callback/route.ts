@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { exchangeCodeForToken, listInstagramAccounts } from '@/services/facebook-oauth';
+import {
+  connectInstagramAccount,
+  consumeOAuthState,
+  savePendingConnection,
+} from '@/services/facebook-connections';
+import { OAUTH_STATE_COOKIE, getRedirectUri } from '../oauth-state';
+
+/**
+ * Facebook Login callback. Connects the Instagram account straight away when
+ * there is only one, otherwise sends the user back to the Credentials page to
+ * pick one.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const credentialsUrl = new URL('/dashboard/credentials', request.nextUrl.origin);
+  const redirectWith = (key: string, value: string) => {
+    credentialsUrl.searchParams.set(key, value);
+    const response = NextResponse.redirect(credentialsUrl);
+    response.cookies.delete({ name: OAUTH_STATE_COOKIE, path: '/api/auth/facebook' });
+    return response;
+  };
+
+  const state = params.get('state');
+  const userId =
+    state && state === request.cookies.get(OAUTH_STATE_COOKIE)?.value
+      ? await consumeOAuthState(adminDb, state)
+      : null;
+  if (!state || !userId) {
+    return redirectWith('connectError', 'The login session expired. Please try again.');
+  }
+
+  if (params.get('error')) {
+    return redirectWith('connectError', params.get('error_description') || 'Facebook Login was cancelled.');
+  }
+
+  const code = params.get('code');
+  if (!code) {
+    return redirectWith('connectError', 'Facebook did not return an authorization code.');
+  }
+
+  try {
+    const token = await exchangeCodeForToken(code, getRedirectUri(request));
+    const accounts = await listInstagramAccounts(token.accessToken);
+
+    if (accounts.length === 0) {
+      return redirectWith(
+        'connectError',
+        'None of your Facebook Pages has an Instagram Business account linked to it.'
+      );
+    }
+    if (accounts.length === 1) {
+      await connectInstagramAccount(adminDb, userId, token, accounts[0]);
+      return redirectWith('connected', accounts[0].username || accounts[0].id);
+    }
+
+    await savePendingConnection(adminDb, state, userId, token, accounts);
+    return redirectWith('connect', state);
+  } catch (error) {
+    console.error('Facebook Login callback failed:', error);
+    return redirectWith(
+      'connectError',
+      error instanceof Error ? error.message : 'Facebook Login failed.'
+    );
+  }
+}
@@ -0,0 +1,8 @@
+import type { NextRequest } from 'next/server';
+
+/** Cookie holding the OAuth state of the login started in this browser. */
+export const OAUTH_STATE_COOKIE = 'fb_oauth_state';
+
+export function getRedirectUri(request: NextRequest): string {
+  return `${process.env.APP_URL || request.nextUrl.origin}/api/auth/facebook/callback`;
+}
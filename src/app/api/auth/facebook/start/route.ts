@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { buildAuthorizationUrl } from '@/services/facebook-oauth';
+import { createOAuthState } from '@/services/facebook-connections';
+import { verifyUserId } from '@/services/auth';
+import { OAUTH_STATE_COOKIE, getRedirectUri } from '../oauth-state';
+
+/**
+ * Starts "Connect with Facebook" for the user whose Firebase ID token is sent
+ * as `Authorization: Bearer <token>`. Binds a new OAuth state to that user and
+ * returns the URL of the Facebook Login dialog to send the browser to.
+ */
+export async function POST(request: NextRequest) {
+  const idToken = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1];
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return NextResponse.json({ error: 'Authentication required to connect an account.' }, { status: 401 });
+  }
+
+  try {
+    const state = await createOAuthState(adminDb, userId);
+    const response = NextResponse.json({ url: buildAuthorizationUrl(state, getRedirectUri(request)) });
+    // Ties the login to this browser, so a link with someone else's state fails.
+    response.cookies.set(OAUTH_STATE_COOKIE, state, {
+      httpOnly: true,
+      secure: request.nextUrl.protocol === 'https:',
+      sameSite: 'lax',
+      path: '/api/auth/facebook',
+      maxAge: 10 * 60,
+    });
+    return response;
+  } catch (error) {
+    console.error('Failed to start Facebook Login:', error);
+    return NextResponse.json({ error: 'Failed to start Facebook Login.' }, { status: 500 });
+  }
+}
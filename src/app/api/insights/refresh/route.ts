@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { refreshPublishedAdInsights } from '@/services/instagram-insights';
+
+/**
+ * Refreshes the insights of recently published posts. Call it from a
+ * scheduler (e.g. hourly) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshPublishedAdInsights(adminDb);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to refresh insights:', error);
+    return NextResponse.json({ error: 'Failed to refresh insights.' }, { status: 500 });
+  }
+}
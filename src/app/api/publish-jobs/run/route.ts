@@ -0,0 +1,75 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb, adminStorage } from '@/lib/firebase-admin';
+import { publishInstagramPost } from '@/ai/flows/publish-instagram-post';
+import {
+  createFirestorePublishJobStore,
+  runDuePublishJobs,
+} from '@/services/publish-queue';
+import { getOwnedAd, loadAdContent } from '@/services/ads';
+
+/**
+ * Worker endpoint for scheduled publishing. Call it every minute from a
+ * scheduler (e.g. Cloud Scheduler) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const processed = await runDuePublishJobs({
+      store: createFirestorePublishJobStore(adminDb),
+      publish: async job => {
+        // Jobs only hold the caption and hashtags; the media is the saved ad's.
+        const ad = await getOwnedAd(adminDb, job.adId, job.userId);
+        if (!ad) {
+          throw new Error('The ad of this post no longer exists.');
+        }
+        const { media } = await loadAdContent(adminStorage.bucket(), ad, job.userId);
+        const result = await publishInstagramPost({
+          userId: job.userId,
+          accountId: job.accountId,
+          caption: job.content.caption,
+          hashtags: job.content.hashtags,
+          media,
+          targets: job.targets,
+          storyFrames: job.storyFrames,
+          hashtagPlacement: job.hashtagPlacement,
+        });
+        return job.locale ? { posts: result.posts.map(post => ({ ...post, locale: job.locale })) } : result;
+      },
+      // Keep the saved ad's status in step with its jobs so the calendar shows
+      // it as published or failed. An ad scheduled for several accounts counts
+      // as published once any of its jobs succeeds.
+      onSettled: async (job, update) => {
+        if (update.status !== 'published' && update.status !== 'failed') {
+          return;
+        }
+        await adminDb.runTransaction(async transaction => {
+          const adRef = adminDb.collection('ads').doc(job.adId);
+          const adDoc = await transaction.get(adRef);
+          // The ad ID comes from the client, so only the job owner's ad is touched.
+          if (!adDoc.exists || adDoc.data()!.userId !== job.userId) {
+            return;
+          }
+          const published = (update.posts ?? []).filter(post => post.postId);
+          if (update.status === 'published' || published.length > 0) {
+            transaction.update(adRef, {
+              status: 'published',
+              publishedAt: adDoc.data()!.publishedAt ?? FieldValue.serverTimestamp(),
+              posts: [...(adDoc.data()!.posts ?? []), ...published],
+            });
+          } else if (adDoc.data()!.status !== 'published') {
+            transaction.update(adRef, { status: 'failed' });
+          }
+        });
+      },
+    });
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error('Failed to run publish jobs:', error);
+    return NextResponse.json({ error: 'Failed to run publish jobs.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { adminDb } from '@/lib/firebase-admin';
+import { refreshExpiringTokens } from '@/services/instagram-tokens';
+
+/**
+ * Refreshes Instagram access tokens that are about to expire. Call it from a
+ * scheduler (daily is enough) with `Authorization: Bearer $CRON_SECRET`.
+ */
+export async function POST(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await refreshExpiringTokens(adminDb);
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Failed to refresh access tokens:', error);
+    return NextResponse.json({ error: 'Failed to refresh access tokens.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import Link from "next/link";
+import { ArrowLeft, FileText } from "lucide-react";
+import { AdDetail } from "@/components/dashboard/ad-detail";
+
+export default async function AdDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-8">
+        <Link href="/dashboard" className="mb-4 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Ads History
+        </Link>
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <FileText className="w-8 h-8" />
+          Ad Details
+        </h1>
+      </div>
+      <AdDetail adId={id} />
+    </div>
+  );
+}
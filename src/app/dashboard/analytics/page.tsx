@@ -0,0 +1,19 @@
+import { AnalyticsDashboard } from "@/components/dashboard/analytics-dashboard";
+import { BarChart3 } from "lucide-react";
+
+export default function AnalyticsPage() {
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <BarChart3 className="w-8 h-8" />
+          Analytics
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Track how your published ads perform on Instagram.
+        </p>
+      </div>
+      <AnalyticsDashboard />
+    </div>
+  );
+}
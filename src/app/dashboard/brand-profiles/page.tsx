@@ -0,0 +1,19 @@
+import { BrandProfilesManager } from "@/components/dashboard/brand-profiles-manager";
+import { Palette } from "lucide-react";
+
+export default function BrandProfilesPage() {
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <Palette className="w-8 h-8" />
+          Brand Profiles
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          Describe each brand&apos;s voice and hashtag rules once, and every caption follows them.
+        </p>
+      </div>
+      <BrandProfilesManager />
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { ContentCalendar } from "@/components/dashboard/content-calendar";
+import { CalendarDays } from "lucide-react";
+
+export default function CalendarPage() {
+  return (
+    <div className="p-4 sm:p-6 lg:p-8">
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold font-headline flex items-center gap-2">
+          <CalendarDays className="w-8 h-8" />
+          Content Calendar
+        </h1>
+        <p className="text-muted-foreground mt-1">
+          See your drafts, scheduled and published posts at a glance.
+        </p>
+      </div>
+      <ContentCalendar />
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { Suspense, useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -14,30 +14,28 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { KeyRound, Loader2 } from "lucide-react";
-import { auth, db } from "@/lib/firebase";
-import { doc, setDoc, getDoc } from "firebase/firestore";
+import { ConnectedAccountsCard } from "@/components/dashboard/connected-accounts-card";
+import { FacebookConnectCard } from "@/components/dashboard/facebook-connect-card";
+import { saveInstagramCredentials } from "@/components/dashboard/actions";
+import { useConnectedAccounts } from "@/hooks/use-connected-accounts";
+import { auth } from "@/lib/firebase";
 import { onAuthStateChanged, User } from "firebase/auth";
+import { format, parseISO } from "date-fns";
 
 export default function CredentialsPage() {
   const { toast } = useToast();
   const [accessToken, setAccessToken] = useState("");
   const [businessAccountId, setBusinessAccountId] = useState("");
+  const [label, setLabel] = useState("");
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
+  const accounts = useConnectedAccounts();
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (currentUser) => {
+    const unsubscribe = onAuthStateChanged(auth, (currentUser) => {
       if (currentUser) {
         setUser(currentUser);
-        // Fetch existing credentials
-        const userDocRef = doc(db, "users", currentUser.uid);
-        const userDoc = await getDoc(userDocRef);
-        if (userDoc.exists()) {
-          const data = userDoc.data();
-          setAccessToken(data.instagramAccessToken || "");
-          setBusinessAccountId(data.instagramBusinessAccountId || "");
-        }
       } else {
         setUser(null);
         toast({
@@ -74,27 +72,27 @@ export default function CredentialsPage() {
 
 
     setIsSaving(true);
-    try {
-      const userDocRef = doc(db, "users", user.uid);
-      await setDoc(userDocRef, {
-          instagramAccessToken: accessToken,
-          instagramBusinessAccountId: businessAccountId,
-      }, { merge: true }); // merge:true prevents overwriting other user data
+    // The server exchanges the pasted token for a long-lived one before storing it.
+    const result = await saveInstagramCredentials(await user.getIdToken(), accessToken, businessAccountId, label);
 
-      toast({
-        title: "Credentials Saved",
-        description: "Your Instagram API credentials have been saved.",
-      });
-    } catch (error) {
-        console.error("Error saving credentials:", error);
+    if ("error" in result) {
         toast({
             title: "Save Failed",
-            description: "Could not save credentials. Please try again.",
+            description: result.error,
             variant: "destructive",
         });
-    } finally {
-        setIsSaving(false);
+    } else {
+      toast({
+        title: "Credentials Saved",
+        description: result.expiresAt
+          ? `Your long-lived access token is valid until ${format(parseISO(result.expiresAt), "MMMM d, yyyy")}.`
+          : "Your Instagram API credentials have been saved.",
+      });
+      setAccessToken("");
+      setBusinessAccountId("");
+      setLabel("");
     }
+    setIsSaving(false);
   };
 
   return (
@@ -105,15 +103,22 @@ export default function CredentialsPage() {
           API Credentials
         </h1>
         <p className="text-muted-foreground mt-1">
-          Manage your Instagram API credentials here.
+          Connect and manage the Instagram accounts you publish to.
         </p>
       </div>
 
+      <div className="space-y-6">
+      <ConnectedAccountsCard user={user} accounts={accounts} />
+
+      <Suspense>
+        <FacebookConnectCard user={user} />
+      </Suspense>
+
       <Card className="max-w-2xl">
         <CardHeader>
-          <CardTitle>Instagram API Settings</CardTitle>
+          <CardTitle>Add an Account Manually</CardTitle>
           <CardDescription>
-            Enter your access token and Instagram Business Account ID.
+            Or enter an access token and Instagram Business Account ID yourself. Short-lived tokens are exchanged for long-lived ones and refreshed automatically before they expire.
           </CardDescription>
         </CardHeader>
         {isLoading ? (
@@ -123,6 +128,16 @@ export default function CredentialsPage() {
         ) : (
             <form onSubmit={handleSubmit}>
             <CardContent className="space-y-6">
+                <div className="space-y-2">
+                <Label htmlFor="label">Label</Label>
+                <Input
+                    id="label"
+                    placeholder="e.g. Brand account"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    disabled={isSaving || !user}
+                />
+                </div>
                 <div className="space-y-2">
                 <Label htmlFor="accessToken">Access Token</Label>
                 <Input
@@ -148,12 +163,13 @@ export default function CredentialsPage() {
             <CardFooter>
                 <Button type="submit" disabled={isSaving || !user}>
                     {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Save Credentials
+                    Add Account
                 </Button>
             </CardFooter>
             </form>
         )}
       </Card>
+      </div>
     </div>
   );
 }
@@ -1,3 +1,4 @@
+import { Suspense } from "react";
 import { AdGeneratorForm } from "@/components/dashboard/ad-generator-form";
 import { Bot } from "lucide-react";
 
@@ -14,7 +15,9 @@ export default function InstagramAdGeneratorPage() {
               Describe your ad idea and let our AI do the magic.
             </p>
           </div>
-          <AdGeneratorForm />
+          <Suspense>
+            <AdGeneratorForm />
+          </Suspense>
         </div>
       </div>
     </div>
@@ -9,6 +9,7 @@ import { useRouter } from "next/navigation";
 import { createUserWithEmailAndPassword, signInWithEmailAndPassword } from "firebase/auth";
 import { doc, setDoc, serverTimestamp } from "firebase/firestore";
 import { auth, db } from "@/lib/firebase";
+import { migrateInstagramCredentials } from "@/components/dashboard/actions";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -57,7 +58,9 @@ export function LoginForm() {
         });
         toast({ title: "Account Created", description: "You have successfully signed up." });
       } else {
-        await signInWithEmailAndPassword(auth, values.email, values.password);
+        const { user } = await signInWithEmailAndPassword(auth, values.email, values.password);
+        // Credentials saved before multiple accounts existed move into the account list once, here.
+        await migrateInstagramCredentials(await user.getIdToken());
         toast({ title: "Login Successful", description: "Welcome back!" });
       }
       router.push("/dashboard");
@@ -0,0 +1,89 @@
+"use client";
+
+import Link from "next/link";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import type { ConnectedAccount } from "@/lib/types";
+import { TokenHealthAlert } from "./token-health-alert";
+
+interface AccountPickerProps {
+  accounts: ConnectedAccount[] | null;
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+  /** Heading above the accounts; several pickers on a page need their own. */
+  label?: string;
+  /** Prefix of the checkbox ids, unique per picker on a page. */
+  idPrefix?: string;
+}
+
+/**
+ * Lets the user pick which connected Instagram accounts to publish to, and
+ * warns about the tokens of the selected ones.
+ */
+export function AccountPicker({
+  accounts,
+  selectedIds,
+  onChange,
+  disabled,
+  label = "Publish to",
+  idPrefix = "publish-account",
+}: AccountPickerProps) {
+  if (!accounts) {
+    return null;
+  }
+
+  if (accounts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No Instagram account connected yet.{" "}
+        <Link href="/dashboard/credentials" className="underline">
+          Connect one
+        </Link>{" "}
+        to publish.
+      </p>
+    );
+  }
+
+  const selected = accounts.filter((account) => selectedIds.includes(account.id));
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">{label}</p>
+      <div className="flex flex-wrap gap-4">
+        {accounts.map((account) => (
+          <div key={account.id} className="flex items-center gap-2">
+            <Checkbox
+              id={`${idPrefix}-${account.id}`}
+              checked={selectedIds.includes(account.id)}
+              disabled={disabled}
+              onCheckedChange={(checked) =>
+                onChange(
+                  checked === true
+                    ? [...selectedIds, account.id]
+                    : selectedIds.filter((id) => id !== account.id)
+                )
+              }
+            />
+            <Label htmlFor={`${idPrefix}-${account.id}`} className="flex items-center gap-2">
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={account.profilePictureUrl} alt={account.label} />
+                <AvatarFallback>{account.label.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              {account.label}
+            </Label>
+          </div>
+        ))}
+      </div>
+      {selected.map((account) => (
+        <TokenHealthAlert
+          key={account.id}
+          health={account.tokenHealth}
+          accountLabel={accounts.length > 1 ? account.label : undefined}
+          showCredentialsLink
+        />
+      ))}
+    </div>
+  );
+}
@@ -2,50 +2,84 @@
 "use server";
 
 import { generateAdCaption } from "@/ai/flows/generate-ad-caption";
+import { generateAdCaptionVariants } from "@/ai/flows/generate-ad-caption-variants";
 import { generateAdHashtags } from "@/ai/flows/generate-ad-hashtags";
 import { generateAdImage } from "@/ai/flows/generate-ad-image";
 import { generateAdVideo } from "@/ai/flows/generate-ad-video";
+import { localizeAdContent } from "@/ai/flows/localize-ad-content";
 import { publishInstagramPost } from "@/ai/flows/publish-instagram-post";
-import type { GeneratedAdContent } from "@/lib/types";
+import { MAX_CREATIVE_IMAGES } from "@/ai/creative";
+import { FieldValue, Timestamp } from "firebase-admin/firestore";
+import { adminDb, adminStorage } from "@/lib/firebase-admin";
+import { cancelPublishJob, enqueuePublishJob, reschedulePublishJob } from "@/services/publish-queue";
+import { storeLongLivedToken } from "@/services/instagram-tokens";
+import {
+  connectInstagramAccount,
+  deletePendingConnection,
+  getPendingConnection,
+} from "@/services/facebook-connections";
+import {
+  connectedAccountRef,
+  migrateLegacyCredentials,
+  removeConnectedAccount,
+  renameConnectedAccount,
+} from "@/services/connected-accounts";
+import { createVideoPoster, sampleVideoFrames } from "@/services/video-frames";
+import { fitMediaToFormat } from "@/services/media-format";
+import { deleteBrandProfile, getBrandProfile, saveBrandProfile } from "@/services/brand-profiles";
+import { deleteHashtagSet, saveHashtagSet } from "@/services/hashtag-sets";
+import { deleteAd, getOwnedAd, loadAdContent, recordPublishedPosts } from "@/services/ads";
+import { verifyUserId } from "@/services/auth";
+import { isOwnStoragePath, toAd } from "@/lib/ads";
+import { CAPTION_ANGLES, validateAdContent } from "@/lib/ad-content";
+import { applyHashtagRules } from "@/lib/brand-profiles";
+import { DEFAULT_MEDIA_FORMAT, MEDIA_FORMATS, videoAspectRatio } from "@/lib/media-formats";
+import { accountDeliveries, localeLabel, type AccountDelivery } from "@/lib/locales";
+import type {
+  BrandProfile,
+  BrandProfileFields,
+  CaptionStyle,
+  GeneratedAdContent,
+  GenerationOptions,
+  HashtagPlacement,
+  LocaleVariant,
+  MediaItem,
+  PublishedPost,
+  PublishTarget,
+} from "@/lib/types";
 
 
-export async function generateAdContent(prompt: string, mediaType: 'image' | 'video', mediaDataUri?: string) {
+export async function generateAdContent(
+  prompt: string,
+  mediaType: 'image' | 'video',
+  uploadedMedia?: MediaItem[],
+  options: GenerationOptions = {},
+) {
   try {
     console.log(`Generating ad content for prompt: "${prompt}" with media type: ${mediaType}`);
 
-    // If media is uploaded, pass it to the caption/hashtag generation.
-    const generationPrompt = { prompt };
+    const brand = await loadBrandProfile(options);
+    // If media is uploaded, the caption and hashtags are written for what it shows.
+    const creative = uploadedMedia && uploadedMedia.length > 0 ? await creativeForModel(uploadedMedia) : undefined;
+    const generationPrompt = { prompt, brand, creative };
 
     const [captionData, hashtagsData] = await Promise.all([
-      generateAdCaption(generationPrompt),
-      generateAdHashtags(generationPrompt),
+      generateCaptions(generationPrompt, options.captionCount ?? 1, options.captionStyle),
+      generateAdHashtags({ ...generationPrompt, mix: options.hashtagMix }),
     ]);
 
-    let imageDataUri: string | undefined;
-    let videoDataUri: string | undefined;
-
-    if (mediaDataUri) {
-      if (mediaType === 'image') {
-        imageDataUri = mediaDataUri;
-      } else {
-        videoDataUri = mediaDataUri;
-      }
-    } else {
-      if (mediaType === 'image') {
-        const imageData = await generateAdImage({ prompt });
-        imageDataUri = imageData.imageDataUri;
-      } else {
-        const videoData = await generateAdVideo({ prompt });
-        videoDataUri = videoData.videoDataUri;
-      }
-    }
+    const hashtags = applyHashtagRules(hashtagsData.hashtags, brand);
+    const [media, localeVariants] = await Promise.all([
+      uploadedMedia && uploadedMedia.length > 0 ? uploadedMedia : generateMedia(prompt, mediaType, undefined, options),
+      localizeContent(prompt, captionData.caption, hashtags, options.locales ?? [], brand),
+    ]);
 
     console.log("Ad content generation successful.");
     return {
-      caption: captionData.caption,
-      hashtags: hashtagsData.hashtags,
-      imageDataUri,
-      videoDataUri,
+      ...captionData,
+      hashtags,
+      media,
+      ...(localeVariants.length > 0 ? { localeVariants } : {}),
     };
   } catch (error) {
     console.error("Failed to generate ad content:", error);
@@ -53,24 +87,618 @@ export async function generateAdContent(prompt: string, mediaType: 'image' | 'vi
   }
 }
 
+/**
+ * Reads the brand profile selected in `options`.
+ * @throws If the profile was deleted in the meantime.
+ */
+async function loadBrandProfile(options: GenerationOptions): Promise<BrandProfile | undefined> {
+  if (!options.brandProfileId) {
+    return undefined;
+  }
+  const userId = await verifyUserId(options.idToken);
+  if (!userId) {
+    throw new Error('Authentication required to use a brand profile.');
+  }
+  const profile = await getBrandProfile(adminDb, userId, options.brandProfileId);
+  if (!profile) {
+    throw new Error('The selected brand profile no longer exists.');
+  }
+  return profile;
+}
+
+/**
+ * Generates a single caption, or with `count` above one a variant per caption
+ * angle. The first variant starts out as the caption.
+ */
+async function generateCaptions(
+  { prompt, brand, creative }: { prompt: string; brand?: BrandProfile; creative?: string[] },
+  count: number,
+  style?: CaptionStyle,
+): Promise<Pick<GeneratedAdContent, 'caption' | 'captionVariants'>> {
+  if (count <= 1) {
+    return generateAdCaption({ prompt, brand, style, creative });
+  }
+  const { variants } = await generateAdCaptionVariants({
+    prompt,
+    angles: CAPTION_ANGLES.slice(0, Math.min(count, CAPTION_ANGLES.length)),
+    brand,
+    style,
+    creative,
+  });
+  return {
+    caption: variants[0].caption,
+    captionVariants: variants.map((variant, index) => ({ ...variant, chosen: index === 0 })),
+  };
+}
+
+/**
+ * Turns uploaded media into images the model can look at: images as they
+ * are, videos as frames sampled across them. A single video gets several
+ * frames, a video in a carousel one. Videos that cannot be sampled are left
+ * out rather than failing the generation.
+ */
+async function creativeForModel(media: MediaItem[]): Promise<string[]> {
+  const framesPerVideo = media.length === 1 ? 4 : 1;
+  const images = await Promise.all(
+    media.map(async item => {
+      if (item.mediaType === 'image') {
+        return [item.dataUri];
+      }
+      try {
+        const video = Buffer.from(item.dataUri.split(',')[1] ?? '', 'base64');
+        const frames = await sampleVideoFrames(video, framesPerVideo);
+        return frames.map(frame => `data:image/jpeg;base64,${frame.toString('base64')}`);
+      } catch (error) {
+        console.error('Failed to sample video frames for captioning:', error);
+        return [];
+      }
+    })
+  );
+  return images.flat().slice(0, MAX_CREATIVE_IMAGES);
+}
+
+/**
+ * Adapts the caption and hashtags to each locale. The variants are not
+ * assigned to any account yet; that happens in the Ad Generator.
+ */
+async function localizeContent(
+  prompt: string,
+  caption: string,
+  hashtags: string[],
+  locales: string[],
+  brand?: BrandProfile,
+): Promise<LocaleVariant[]> {
+  return Promise.all(
+    locales.map(async locale => {
+      const localized = await localizeAdContent({ prompt, caption, hashtags, locale, brand });
+      return {
+        locale,
+        caption: localized.caption,
+        hashtags: applyHashtagRules(localized.hashtags, brand),
+        accountIds: [],
+      };
+    })
+  );
+}
+
+/**
+ * Generates an image or video for the prompt in the requested format, and
+ * crops or pads it to the format's exact size if the model made another.
+ */
+async function generateMedia(
+  prompt: string,
+  mediaType: 'image' | 'video',
+  feedback?: string,
+  { format = DEFAULT_MEDIA_FORMAT, fit = 'crop' }: Pick<GenerationOptions, 'format' | 'fit'> = {},
+): Promise<MediaItem[]> {
+  if (mediaType === 'image') {
+    const imageData = await generateAdImage({ prompt, feedback, aspectRatio: MEDIA_FORMATS[format].aspectRatio });
+    return [await fitMediaToFormat({ dataUri: imageData.imageDataUri, mediaType: 'image' }, format, fit)];
+  }
+  const videoData = await generateAdVideo({ prompt, feedback, aspectRatio: videoAspectRatio(format) });
+  return [await fitMediaToFormat({ dataUri: videoData.videoDataUri, mediaType: 'video' }, format, fit)];
+}
+
+/**
+ * Writes a new caption for the prompt, optionally replacing `previousCaption`
+ * as directed by `feedback` (e.g. "shorter" or "more playful"). Like
+ * `generateAdContent`, it is written for what `uploadedMedia` shows.
+ */
+export async function regenerateAdCaption(
+  prompt: string,
+  feedback?: string,
+  previousCaption?: string,
+  uploadedMedia?: MediaItem[],
+  options: GenerationOptions = {},
+) {
+  try {
+    const [brand, creative] = await Promise.all([
+      loadBrandProfile(options),
+      uploadedMedia && uploadedMedia.length > 0 ? creativeForModel(uploadedMedia) : undefined,
+    ]);
+    const { caption } = await generateAdCaption({
+      prompt,
+      previousCaption: previousCaption || undefined,
+      feedback: feedback?.trim() || undefined,
+      brand,
+      style: options.captionStyle,
+      creative,
+    });
+    return { caption };
+  } catch (error) {
+    console.error("Failed to regenerate caption:", error);
+    return { error: "An error occurred while regenerating the caption. Please check the server logs." };
+  }
+}
+
+/** Generates a new set of hashtags for the prompt. See `regenerateAdCaption`. */
+export async function regenerateAdHashtags(
+  prompt: string,
+  feedback?: string,
+  previousHashtags?: string[],
+  uploadedMedia?: MediaItem[],
+  options: GenerationOptions = {},
+) {
+  try {
+    const [brand, creative] = await Promise.all([
+      loadBrandProfile(options),
+      uploadedMedia && uploadedMedia.length > 0 ? creativeForModel(uploadedMedia) : undefined,
+    ]);
+    const { hashtags } = await generateAdHashtags({
+      prompt,
+      previousHashtags: previousHashtags?.length ? previousHashtags : undefined,
+      feedback: feedback?.trim() || undefined,
+      brand,
+      mix: options.hashtagMix,
+      creative,
+    });
+    return { hashtags: applyHashtagRules(hashtags, brand) };
+  } catch (error) {
+    console.error("Failed to regenerate hashtags:", error);
+    return { error: "An error occurred while regenerating the hashtags. Please check the server logs." };
+  }
+}
+
+/** Generates a new image or video for the prompt. See `regenerateAdCaption`. */
+export async function regenerateAdMedia(
+  prompt: string,
+  mediaType: 'image' | 'video',
+  feedback?: string,
+  options: GenerationOptions = {},
+) {
+  try {
+    return { media: await generateMedia(prompt, mediaType, feedback?.trim() || undefined, options) };
+  } catch (error) {
+    console.error(`Failed to regenerate ${mediaType}:`, error);
+    return { error: `An error occurred while regenerating the ${mediaType}. Please check the server logs.` };
+  }
+}
+
+/** Checks the content each account gets against Instagram's limits. */
+function validateDeliveries(deliveries: AccountDelivery[], placement: HashtagPlacement): string | null {
+  if (deliveries.length === 0) {
+    return 'Please select at least one Instagram account.';
+  }
+  for (const { locale, content } of deliveries) {
+    const invalid = validateAdContent(content, placement);
+    if (invalid) {
+      return locale ? `${localeLabel(locale)}: ${invalid}` : invalid;
+    }
+  }
+  return null;
+}
+
 export async function publishAdToInstagram(
   adContent: GeneratedAdContent,
-  userId: string,
+  idToken: string,
+  adId: string,
+  targets: PublishTarget[] = ['FEED'],
+  accountIds: string[] = [],
+  hashtagPlacement: HashtagPlacement = 'caption',
 ) {
-   if (!userId) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
     return { error: 'Authentication required to publish.' };
   }
   try {
-    const result = await publishInstagramPost({
-      userId: userId,
-      caption: adContent.caption,
-      hashtags: adContent.hashtags,
-      mediaDataUri: adContent.imageDataUri || adContent.videoDataUri || "",
-      mediaType: adContent.imageDataUri ? 'image' : 'video',
+    const ad = await getOwnedAd(adminDb, adId, userId);
+    if (!ad || ad.status !== 'draft') {
+      return { error: 'Only saved drafts can be published.' };
+    }
+    const result = await publishForUser(userId, adContent, targets, accountIds, hashtagPlacement);
+    if ('posts' in result) {
+      await recordPublishedPosts(adminDb, adId, result.posts);
+    }
+    return result;
+  } catch (error: any) {
+    console.error('Failed to publish ad:', error);
+    return { error: error.message || 'An unexpected error occurred during publishing.' };
+  }
+}
+
+/** Publishes the content to each of the user's accounts right away. */
+async function publishForUser(
+  userId: string,
+  adContent: GeneratedAdContent,
+  targets: PublishTarget[],
+  accountIds: string[],
+  hashtagPlacement: HashtagPlacement,
+): Promise<{ error: string } | { posts: PublishedPost[] }> {
+  const deliveries = accountDeliveries(adContent, accountIds);
+  const invalid = validateDeliveries(deliveries, hashtagPlacement);
+  if (invalid) {
+    return { error: invalid };
+  }
+  const posts: PublishedPost[] = [];
+  for (const { accountId, locale, content } of deliveries) {
+    const tag = locale ? { locale } : {};
+    try {
+      const result = await publishInstagramPost({
+        userId: userId,
+        accountId,
+        caption: content.caption,
+        hashtags: content.hashtags,
+        media: content.media,
+        targets,
+        hashtagPlacement,
+      });
+      posts.push(...result.posts.map(post => ({ ...post, ...tag })));
+    } catch (error: any) {
+      console.error(`Failed to publish to Instagram account ${accountId}:`, error);
+      const message = error.message || 'An unexpected error occurred during publishing.';
+      posts.push(...targets.map(target => ({ accountId, target, error: message, ...tag })));
+    }
+  }
+
+  const failed = posts.filter(post => post.error);
+  if (failed.length === posts.length) {
+    return { error: [...new Set(failed.map(post => `${post.target}: ${post.error}`))].join('\n') };
+  }
+  return { posts };
+}
+
+export async function schedulePublishToInstagram(
+  adContent: GeneratedAdContent,
+  idToken: string,
+  targets: PublishTarget[],
+  scheduledAt: string,
+  accountIds: string[],
+  adId: string,
+  hashtagPlacement: HashtagPlacement = 'caption',
+) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to schedule a post.' };
+  }
+  const deliveries = accountDeliveries(adContent, accountIds);
+  const invalid = validateDeliveries(deliveries, hashtagPlacement);
+  if (invalid) {
+    return { error: invalid };
+  }
+  const scheduledDate = new Date(scheduledAt);
+  if (isNaN(scheduledDate.getTime()) || scheduledDate.getTime() <= Date.now()) {
+    return { error: 'Please pick a date and time in the future.' };
+  }
+  const jobIds: string[] = [];
+  try {
+    const ad = await getOwnedAd(adminDb, adId, userId);
+    if (!ad || ad.status !== 'draft') {
+      return { error: 'Only saved drafts can be scheduled.' };
+    }
+    // One job per account, so a failing account is retried on its own.
+    for (const { accountId, locale, content } of deliveries) {
+      jobIds.push(
+        await enqueuePublishJob(adminDb, {
+          userId,
+          adId,
+          accountId,
+          locale,
+          content,
+          targets,
+          hashtagPlacement,
+          scheduledAt: scheduledDate,
+        })
+      );
+    }
+    await adminDb.collection('ads').doc(adId).update({
+      status: 'scheduled',
+      scheduledAt: Timestamp.fromDate(scheduledDate),
+      publishJobIds: jobIds,
+    });
+    return { jobIds };
+  } catch (error: any) {
+    console.error('Failed to schedule Instagram post:', error);
+    // Jobs the ad does not list could be neither seen nor cancelled.
+    await Promise.all(jobIds.map(jobId => cancelPublishJob(adminDb, jobId, userId).catch(() => false)));
+    return { error: error.message || 'An unexpected error occurred while scheduling.' };
+  }
+}
+
+export async function rescheduleAd(adId: string, idToken: string, scheduledAt: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to reschedule a post.' };
+  }
+  const scheduledDate = new Date(scheduledAt);
+  if (isNaN(scheduledDate.getTime()) || scheduledDate.getTime() <= Date.now()) {
+    return { error: 'Posts can only be moved to a time in the future.' };
+  }
+  try {
+    const adRef = adminDb.collection('ads').doc(adId);
+    const adDoc = await adRef.get();
+    const ad = adDoc.exists ? toAd(adDoc.id, adDoc.data()!) : null;
+    if (!ad || adDoc.data()?.userId !== userId || ad.status !== 'scheduled' || !ad.publishJobIds?.length) {
+      return { error: 'Only scheduled posts can be rescheduled.' };
+    }
+
+    for (const jobId of ad.publishJobIds) {
+      const moved = await reschedulePublishJob(adminDb, jobId, userId, scheduledDate);
+      if (!moved) {
+        return { error: 'This post is already being published and can no longer be moved.' };
+      }
+    }
+    await adRef.update({ scheduledAt: Timestamp.fromDate(scheduledDate) });
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to reschedule ad:', error);
+    return { error: error.message || 'An unexpected error occurred while rescheduling.' };
+  }
+}
+
+export async function saveInstagramCredentials(
+  idToken: string,
+  accessToken: string,
+  businessAccountId: string,
+  label: string,
+) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to save credentials.' };
+  }
+  try {
+    const accountRef = connectedAccountRef(adminDb, userId, businessAccountId);
+    const existing = await accountRef.get();
+    const token = await storeLongLivedToken(accountRef, accessToken, {
+      instagramBusinessAccountId: businessAccountId,
+      label: label || businessAccountId,
+      ...(existing.exists ? {} : { createdAt: FieldValue.serverTimestamp() }),
     });
+    return { expiresAt: token.expiresAt?.toISOString() };
+  } catch (error: any) {
+    console.error('Failed to save Instagram credentials:', error);
+    return { error: error.message || 'An unexpected error occurred while saving credentials.' };
+  }
+}
+
+export async function getPendingInstagramAccounts(connectionId: string, idToken: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to connect an account.' };
+  }
+  try {
+    const connection = await getPendingConnection(adminDb, connectionId, userId);
+    if (!connection) {
+      return { error: 'The login session expired. Please connect with Facebook again.' };
+    }
+    return { accounts: connection.accounts };
+  } catch (error: any) {
+    console.error('Failed to load pending Instagram accounts:', error);
+    return { error: error.message || 'An unexpected error occurred while loading your accounts.' };
+  }
+}
+
+export async function completeInstagramConnection(
+  connectionId: string,
+  idToken: string,
+  accountIds: string[],
+) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to connect an account.' };
+  }
+  try {
+    const connection = await getPendingConnection(adminDb, connectionId, userId);
+    if (!connection) {
+      return { error: 'The login session expired. Please connect with Facebook again.' };
+    }
+    const accounts = connection.accounts.filter(a => accountIds.includes(a.id));
+    if (accounts.length === 0) {
+      return { error: 'Select at least one account to connect.' };
+    }
+    for (const account of accounts) {
+      await connectInstagramAccount(adminDb, userId, connection.token, account);
+    }
+    await deletePendingConnection(adminDb, connectionId);
+    return { accounts };
+  } catch (error: any) {
+    console.error('Failed to connect Instagram account:', error);
+    return { error: error.message || 'An unexpected error occurred while connecting the account.' };
+  }
+}
+
+export async function migrateInstagramCredentials(idToken: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required.' };
+  }
+  try {
+    await migrateLegacyCredentials(adminDb, userId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to migrate Instagram credentials:', error);
+    return { error: error.message || 'An unexpected error occurred while loading your accounts.' };
+  }
+}
+
+export async function renameInstagramAccount(idToken: string, accountId: string, label: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to manage accounts.' };
+  }
+  if (!label.trim()) {
+    return { error: 'The label cannot be empty.' };
+  }
+  try {
+    await renameConnectedAccount(adminDb, userId, accountId, label.trim());
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to rename Instagram account:', error);
+    return { error: error.message || 'An unexpected error occurred while renaming the account.' };
+  }
+}
+
+export async function removeInstagramAccount(idToken: string, accountId: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to manage accounts.' };
+  }
+  try {
+    await removeConnectedAccount(adminDb, userId, accountId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to remove Instagram account:', error);
+    return { error: error.message || 'An unexpected error occurred while removing the account.' };
+  }
+}
+
+export async function createAdVideoPoster(idToken: string, storagePath: string, atSeconds: number) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required.' };
+  }
+  if (!isOwnStoragePath(storagePath, userId)) {
+    return { error: 'You can only create posters for your own videos.' };
+  }
+  try {
+    return await createVideoPoster(adminStorage.bucket(), storagePath, atSeconds);
+  } catch (error: any) {
+    console.error('Failed to create video poster:', error);
+    return { error: error.message || 'An unexpected error occurred while creating the poster.' };
+  }
+}
+
+export async function republishAd(
+  adId: string,
+  idToken: string,
+  targets: PublishTarget[] = ['FEED'],
+  accountIds: string[] = [],
+  hashtagPlacement: HashtagPlacement = 'caption',
+) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to publish.' };
+  }
+  try {
+    const ad = await getOwnedAd(adminDb, adId, userId);
+    if (!ad) {
+      return { error: 'This ad does not exist.' };
+    }
+    const content = await loadAdContent(adminStorage.bucket(), ad, userId);
+    const result = await publishForUser(userId, content, targets, accountIds, hashtagPlacement);
+    if ('posts' in result) {
+      await recordPublishedPosts(adminDb, adId, result.posts);
+    }
     return result;
   } catch (error: any) {
-    console.error('Failed to publish to Instagram:', error);
+    console.error('Failed to republish ad:', error);
     return { error: error.message || 'An unexpected error occurred during publishing.' };
   }
 }
+
+export async function loadAdIntoGenerator(adId: string, idToken: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required.' };
+  }
+  try {
+    const ad = await getOwnedAd(adminDb, adId, userId);
+    if (!ad) {
+      return { error: 'This ad does not exist.' };
+    }
+    const content = await loadAdContent(adminStorage.bucket(), ad, userId);
+    return {
+      prompt: ad.prompt,
+      content,
+      status: ad.status,
+      generation: ad.generation,
+      storedMedia: ad.media ?? [],
+    };
+  } catch (error: any) {
+    console.error('Failed to load ad:', error);
+    return { error: error.message || 'An unexpected error occurred while loading the ad.' };
+  }
+}
+
+export async function deleteSavedAd(adId: string, idToken: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to delete an ad.' };
+  }
+  try {
+    const ad = await getOwnedAd(adminDb, adId, userId);
+    if (!ad) {
+      return { error: 'This ad does not exist.' };
+    }
+    if (!(await deleteAd(adminDb, adminStorage.bucket(), ad, userId))) {
+      return { error: 'This post is being published right now and cannot be deleted yet.' };
+    }
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to delete ad:', error);
+    return { error: error.message || 'An unexpected error occurred while deleting the ad.' };
+  }
+}
+
+export async function upsertBrandProfile(idToken: string, fields: BrandProfileFields, profileId?: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to save a brand profile.' };
+  }
+  try {
+    return { id: await saveBrandProfile(adminDb, userId, fields, profileId) };
+  } catch (error: any) {
+    console.error('Failed to save brand profile:', error);
+    return { error: error.message || 'An unexpected error occurred while saving the brand profile.' };
+  }
+}
+
+export async function removeBrandProfile(idToken: string, profileId: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to delete a brand profile.' };
+  }
+  try {
+    await deleteBrandProfile(adminDb, userId, profileId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to delete brand profile:', error);
+    return { error: error.message || 'An unexpected error occurred while deleting the brand profile.' };
+  }
+}
+
+export async function upsertHashtagSet(idToken: string, name: string, hashtags: string[], setId?: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to save a hashtag set.' };
+  }
+  try {
+    return { id: await saveHashtagSet(adminDb, userId, name, hashtags, setId) };
+  } catch (error: any) {
+    console.error('Failed to save hashtag set:', error);
+    return { error: error.message || 'An unexpected error occurred while saving the hashtag set.' };
+  }
+}
+
+export async function removeHashtagSet(idToken: string, setId: string) {
+  const userId = await verifyUserId(idToken);
+  if (!userId) {
+    return { error: 'Authentication required to delete a hashtag set.' };
+  }
+  try {
+    await deleteHashtagSet(adminDb, userId, setId);
+    return { success: true };
+  } catch (error: any) {
+    console.error('Failed to delete hashtag set:', error);
+    return { error: error.message || 'An unexpected error occurred while deleting the hashtag set.' };
+  }
+}
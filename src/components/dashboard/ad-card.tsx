@@ -1,26 +1,57 @@
+"use client";
 
 import Image from "next/image";
+import Link from "next/link";
+import { Play } from "lucide-react";
 import { Ad } from "@/lib/types";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { format, parseISO } from "date-fns";
 
 interface AdCardProps {
   ad: Ad;
 }
 
+function AdVideo({ ad }: AdCardProps) {
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button type="button" className="group absolute inset-0 z-10 flex items-center justify-center" aria-label="Play video">
+          <span className="flex h-14 w-14 items-center justify-center rounded-full bg-black/60 text-white transition-transform group-hover:scale-110">
+            <Play className="ml-1 h-7 w-7 fill-current" />
+          </span>
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogTitle className="sr-only">{ad.caption}</DialogTitle>
+        <video
+          src={ad.videoUrl}
+          poster={ad.posterUrl}
+          controls
+          autoPlay
+          playsInline
+          className="max-h-[80vh] w-full rounded-md bg-black"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 export function AdCard({ ad }: AdCardProps) {
   return (
-    <Card className="flex flex-col overflow-hidden transition-all hover:shadow-lg">
+    <Card className="relative flex flex-col overflow-hidden transition-all hover:shadow-lg">
+      <Link href={`/dashboard/ads/${ad.id}`} className="absolute inset-0 z-[1]" aria-label="View ad details" />
       <CardHeader className="p-0">
         <div className="aspect-square relative">
           <Image
-            src={ad.imageUrl}
+            src={ad.posterUrl ?? ad.imageUrl}
             alt={ad.prompt}
             fill
             className="object-cover"
             data-ai-hint="advertisement social media"
           />
+          {ad.mediaType === "video" && ad.videoUrl && <AdVideo ad={ad} />}
         </div>
       </CardHeader>
       <CardContent className="p-4 flex-grow">
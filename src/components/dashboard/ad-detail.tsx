@@ -0,0 +1,414 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { collection, doc, onSnapshot, query, where } from "firebase/firestore";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { format, parseISO } from "date-fns";
+import { Copy, Download, ExternalLink, Loader2, Pencil, Send, Trash2 } from "lucide-react";
+
+import { auth, db } from "@/lib/firebase";
+import { statusBadgeVariant, toAd } from "@/lib/ads";
+import { toMediaInsights } from "@/lib/insights";
+import { PUBLISH_TARGET_OPTIONS, canPublishReel } from "@/lib/publish-targets";
+import { CAPTION_ANGLE_LABELS } from "@/lib/ad-content";
+import { localeLabel } from "@/lib/locales";
+import { MEDIA_FORMATS } from "@/lib/media-formats";
+import type { Ad, HashtagPlacement, MediaInsights, MediaOption, PublishTarget } from "@/lib/types";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useConnectedAccounts } from "@/hooks/use-connected-accounts";
+import { AccountPicker } from "./account-picker";
+import { HashtagPlacementPicker } from "./hashtag-placement-picker";
+import { deleteSavedAd, republishAd } from "./actions";
+
+const mediaOptionLabels: Record<MediaOption, string> = {
+  image: "Generated image",
+  video: "Generated video",
+  upload_image: "Uploaded image",
+  upload_video: "Uploaded video",
+  upload_carousel: "Uploaded carousel",
+};
+
+interface AdDetailProps {
+  adId: string;
+}
+
+export function AdDetail({ adId }: AdDetailProps) {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [ad, setAd] = useState<Ad | null>(null);
+  const [insights, setInsights] = useState<MediaInsights[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [publishTargets, setPublishTargets] = useState<PublishTarget[]>(["FEED"]);
+  const [hashtagPlacement, setHashtagPlacement] = useState<HashtagPlacement>("caption");
+  const connectedAccounts = useConnectedAccounts();
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[] | null>(null);
+  const accountIds = selectedAccountIds ?? (connectedAccounts?.[0] ? [connectedAccounts[0].id] : []);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, (currentUser) => {
+      setUser(currentUser);
+      if (!currentUser) setIsLoading(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribeAd = onSnapshot(
+      doc(db, "ads", adId),
+      (adDoc) => {
+        setAd(adDoc.exists() ? toAd(adDoc.id, adDoc.data()) : null);
+        setIsLoading(false);
+      },
+      (err) => {
+        // Reading someone else's ad is rejected by the security rules.
+        console.error("Error fetching ad:", err);
+        setAd(null);
+        setIsLoading(false);
+      }
+    );
+    // Permalinks are collected along with the insights.
+    const unsubscribeInsights = onSnapshot(
+      query(collection(db, "mediaInsights"), where("userId", "==", user.uid), where("adId", "==", adId)),
+      (snapshot) => setInsights(snapshot.docs.map((insightDoc) => toMediaInsights(insightDoc.data()))),
+      (err) => console.error("Error fetching ad insights:", err)
+    );
+    return () => {
+      unsubscribeAd();
+      unsubscribeInsights();
+    };
+  }, [user, adId]);
+
+  async function handleRepublish() {
+    if (!user || !ad) return;
+    const targets = publishTargets.filter((t) => t !== "REELS" || canPublishReel(ad.media));
+    if (targets.length === 0 || accountIds.length === 0) {
+      toast({
+        title: "Nothing to Publish",
+        description: "Select at least one account and one of feed, reel or story.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setIsPublishing(true);
+    const result = await republishAd(ad.id, await user.getIdToken(), targets, accountIds, hashtagPlacement);
+    if ("error" in result) {
+      toast({ title: "Publishing Failed", description: result.error, variant: "destructive" });
+    } else {
+      const failed = result.posts.filter((post) => post.error);
+      const uncommented = result.posts.filter((post) => post.commentError);
+      toast({
+        title: failed.length > 0 ? "Partially Published" : "Published Successfully!",
+        description:
+          [
+            ...failed.map((post) => `${post.target}: ${post.error}`),
+            ...uncommented.map((post) => `${post.target}: hashtags not commented (${post.commentError})`),
+          ].join("\n") || undefined,
+        variant: failed.length > 0 ? "destructive" : "default",
+      });
+    }
+    setIsPublishing(false);
+  }
+
+  async function handleDelete() {
+    if (!user || !ad) return;
+    setIsDeleting(true);
+    const result = await deleteSavedAd(ad.id, await user.getIdToken());
+    if ("error" in result) {
+      toast({ title: "Delete Failed", description: result.error, variant: "destructive" });
+      setIsDeleting(false);
+      return;
+    }
+    toast({ title: "Ad Deleted" });
+    router.push("/dashboard");
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full rounded-xl" />;
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Sign In Required</h3>
+        <p className="mt-2 text-sm text-muted-foreground">Log in to see this ad.</p>
+      </div>
+    );
+  }
+
+  if (!ad) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Ad Not Found</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          It may have been deleted. <Link href="/dashboard" className="underline">Back to history</Link>
+        </p>
+      </div>
+    );
+  }
+
+  const media = ad.media?.length
+    ? ad.media.map((item) => ({ url: item.downloadUrl, mediaType: item.mediaType, poster: item.posterUrl }))
+    : [{ url: ad.imageUrl, mediaType: "image" as const, poster: undefined }];
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <Card>
+        <CardHeader>
+          <CardTitle>Media</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {media.map((item, index) => (
+            <div key={index} className="space-y-2">
+              {item.mediaType === "image" ? (
+                <Image
+                  src={item.url}
+                  alt={`${ad.prompt} (${index + 1})`}
+                  width={600}
+                  height={600}
+                  className="mx-auto rounded-lg"
+                />
+              ) : (
+                <video src={item.url} poster={item.poster} controls playsInline className="w-full rounded-lg" />
+              )}
+              {ad.media?.length ? (
+                <Button variant="outline" size="sm" asChild>
+                  <a href={item.url} target="_blank" rel="noreferrer" download>
+                    <Download className="mr-2 h-4 w-4" />
+                    Download {media.length > 1 ? `slide ${index + 1}` : item.mediaType}
+                  </a>
+                </Button>
+              ) : null}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between gap-2">
+              Details
+              <Badge variant={statusBadgeVariant[ad.status]} className="capitalize">
+                {ad.status}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-sm">
+            <div>
+              <p className="font-semibold">Caption</p>
+              <p className="whitespace-pre-wrap text-muted-foreground">{ad.caption}</p>
+            </div>
+            {ad.captionVariants && (
+              <div className="space-y-2">
+                <p className="font-semibold">Caption variants</p>
+                {ad.captionVariants.map((variant) => (
+                  <div key={variant.angle} className="rounded-md border p-3">
+                    <div className="mb-1 flex items-center gap-2">
+                      <Badge variant="outline">{CAPTION_ANGLE_LABELS[variant.angle]}</Badge>
+                      <span className="text-xs text-muted-foreground">{variant.chosen ? "Chosen" : "Rejected"}</span>
+                    </div>
+                    <p className="whitespace-pre-wrap text-muted-foreground">{variant.caption}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {ad.hashtags.map((tag) => (
+                <Badge key={tag} variant="secondary">
+                  {tag}
+                </Badge>
+              ))}
+            </div>
+            {ad.localeVariants && (
+              <div className="space-y-2">
+                <p className="font-semibold">Localized versions</p>
+                {ad.localeVariants.map((variant) => {
+                  const accounts = (connectedAccounts ?? []).filter((a) => variant.accountIds.includes(a.id));
+                  return (
+                    <div key={variant.locale} className="space-y-2 rounded-md border p-3">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{localeLabel(variant.locale)}</Badge>
+                        {accounts.length > 0 && (
+                          <span className="text-xs text-muted-foreground">
+                            For {accounts.map((a) => a.label).join(", ")}
+                          </span>
+                        )}
+                      </div>
+                      <p className="whitespace-pre-wrap text-muted-foreground">{variant.caption}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {variant.hashtags.map((tag) => (
+                          <Badge key={tag} variant="secondary">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <div>
+              <p className="font-semibold">Prompt</p>
+              <p className="whitespace-pre-wrap text-muted-foreground">{ad.prompt}</p>
+            </div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-muted-foreground">
+              {ad.generation && (
+                <>
+                  <dt>Media</dt>
+                  <dd>{mediaOptionLabels[ad.generation.mediaOption]}</dd>
+                </>
+              )}
+              {ad.generation?.format && (
+                <>
+                  <dt>Format</dt>
+                  <dd>{MEDIA_FORMATS[ad.generation.format].label}</dd>
+                </>
+              )}
+              <dt>Created</dt>
+              <dd>{format(parseISO(ad.createdAt), "MMMM d, yyyy 'at' HH:mm")}</dd>
+              {ad.scheduledAt && (
+                <>
+                  <dt>Scheduled for</dt>
+                  <dd>{format(parseISO(ad.scheduledAt), "MMMM d, yyyy 'at' HH:mm")}</dd>
+                </>
+              )}
+              {ad.publishedAt && (
+                <>
+                  <dt>Published</dt>
+                  <dd>{format(parseISO(ad.publishedAt), "MMMM d, yyyy 'at' HH:mm")}</dd>
+                </>
+              )}
+            </dl>
+            {ad.posts && ad.posts.length > 0 && (
+              <ul className="space-y-1">
+                {ad.posts.map((post) => {
+                  const permalink = insights.find((insight) => insight.postId === post.postId)?.permalink;
+                  const account = connectedAccounts?.find((a) => a.id === post.accountId);
+                  return (
+                    <li key={`${post.accountId}-${post.target}-${post.postId}`} className="flex items-center gap-2">
+                      <Badge variant="outline">{post.target}</Badge>
+                      {account && <span>{account.label}</span>}
+                      {post.locale && <Badge variant="secondary">{localeLabel(post.locale)}</Badge>}
+                      {permalink ? (
+                        <a href={permalink} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 underline">
+                          View on Instagram <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <span className="text-muted-foreground">{post.postId}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Actions</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <AccountPicker
+              accounts={connectedAccounts}
+              selectedIds={accountIds}
+              onChange={setSelectedAccountIds}
+              disabled={isPublishing}
+            />
+            <div className="flex flex-wrap gap-6">
+              {PUBLISH_TARGET_OPTIONS.map((option) => {
+                const disabled = option.value === "REELS" && !canPublishReel(ad.media);
+                return (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`republish-target-${option.value}`}
+                      checked={publishTargets.includes(option.value) && !disabled}
+                      disabled={disabled || isPublishing}
+                      onCheckedChange={(checked) =>
+                        setPublishTargets((current) =>
+                          checked === true ? [...current, option.value] : current.filter((t) => t !== option.value)
+                        )
+                      }
+                    />
+                    <Label htmlFor={`republish-target-${option.value}`}>{option.label}</Label>
+                  </div>
+                );
+              })}
+            </div>
+            <HashtagPlacementPicker
+              value={hashtagPlacement}
+              onChange={setHashtagPlacement}
+              disabled={isPublishing}
+              idPrefix="republish-hashtag-placement"
+            />
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleRepublish} disabled={isPublishing || isDeleting}>
+                {isPublishing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                {ad.status === "published" ? "Publish Again" : "Publish Now"}
+              </Button>
+              {ad.status === "draft" && (
+                <Button variant="outline" asChild>
+                  <Link href={`/dashboard/instagram?draft=${ad.id}`}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Draft
+                  </Link>
+                </Button>
+              )}
+              <Button variant="outline" asChild>
+                <Link href={`/dashboard/instagram?from=${ad.id}`}>
+                  <Copy className="mr-2 h-4 w-4" />
+                  Duplicate
+                </Link>
+              </Button>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="destructive" disabled={isDeleting || isPublishing}>
+                    {isDeleting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                    Delete
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Delete this ad?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      The ad and its media are removed from your history
+                      {ad.status === "scheduled" ? " and its scheduled post is cancelled" : ""}. Posts already on
+                      Instagram stay there.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
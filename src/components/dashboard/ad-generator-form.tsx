@@ -1,7 +1,7 @@
 
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, type ChangeEvent } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -15,9 +15,27 @@ import {
   Check,
   Send,
   Upload,
+  GalleryHorizontal,
+  CalendarClock,
+  Replace,
 } from "lucide-react";
-import { collection, addDoc, serverTimestamp } from "firebase/firestore";
-import { db, auth } from "@/lib/firebase";
+import { useSearchParams } from "next/navigation";
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteField,
+  serverTimestamp,
+} from "firebase/firestore";
+import { onAuthStateChanged } from "firebase/auth";
+import { db, auth, storage } from "@/lib/firebase";
+import { deleteStoredFiles, uploadAdMedia } from "@/lib/media-storage";
+import { storedMediaPaths } from "@/lib/ads";
+import { CAPTION_VARIANT_COUNTS, validateAdContent } from "@/lib/ad-content";
+import { LOCALES, localeLabel } from "@/lib/locales";
+import { DEFAULT_HASHTAG_MIX, cleanHashtags } from "@/lib/hashtags";
+import { DEFAULT_MEDIA_FORMAT, MEDIA_FIT_LABELS, MEDIA_FORMATS } from "@/lib/media-formats";
 
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -30,24 +48,61 @@ import {
   FormLabel,
 } from "@/components/ui/form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
-import { generateAdContent, publishAdToInstagram } from "./actions";
+import {
+  createAdVideoPoster,
+  generateAdContent,
+  loadAdIntoGenerator,
+  publishAdToInstagram,
+  regenerateAdCaption,
+  regenerateAdHashtags,
+  regenerateAdMedia,
+  schedulePublishToInstagram,
+} from "./actions";
 import { cn } from "@/lib/utils";
-import type { GeneratedAdContent } from "@/lib/types";
+import { PUBLISH_TARGET_OPTIONS, canPublishReel } from "@/lib/publish-targets";
+import type {
+  CaptionStyle,
+  GeneratedAdContent,
+  GenerationOptions,
+  HashtagMix,
+  HashtagPlacement,
+  MediaItem,
+  PublishTarget,
+  StoredMedia,
+} from "@/lib/types";
 import { Input } from "../ui/input";
+import { Checkbox } from "../ui/checkbox";
+import { AccountPicker } from "./account-picker";
+import { CoverFramePicker } from "./cover-frame-picker";
+import { CaptionEditor } from "./caption-editor";
+import { HashtagEditor } from "./hashtag-editor";
+import { CaptionVariants } from "./caption-variants";
+import { CaptionStyleControls } from "./caption-style-controls";
+import { LocaleVariantsEditor } from "./locale-variants-editor";
+import { HashtagMixControls } from "./hashtag-mix-controls";
+import { HashtagSetsMenu } from "./hashtag-sets-menu";
+import { HashtagPlacementPicker } from "./hashtag-placement-picker";
+import { RegenerateButton } from "./regenerate-button";
+import { useConnectedAccounts } from "@/hooks/use-connected-accounts";
+import { useBrandProfiles } from "@/hooks/use-brand-profiles";
+import { Label } from "../ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
 
 const formSchema = z
   .object({
     prompt: z.string().min(10, { message: "Prompt must be at least 10 characters." }),
-    mediaType: z.enum(["image", "video", "upload_image", "upload_video"]),
+    mediaType: z.enum(["image", "video", "upload_image", "upload_video", "upload_carousel"]),
     mediaFile: z.any().optional(),
+    captionCount: z.number().int().min(1).max(5),
+    format: z.enum(["square", "portrait", "story", "landscape"]),
+    fit: z.enum(["crop", "pad"]),
   })
   .refine(
     (data) => {
       if (
-        (data.mediaType === "upload_image" || data.mediaType === "upload_video") &&
+        data.mediaType.startsWith("upload_") &&
         (!data.mediaFile || data.mediaFile.length === 0)
       ) {
         return false;
@@ -58,18 +113,208 @@ const formSchema = z
       message: "Please select a file to upload.",
       path: ["mediaFile"],
     }
+  )
+  .refine(
+    (data) => {
+      if (data.mediaType !== "upload_carousel" || !data.mediaFile) {
+        return true;
+      }
+      return data.mediaFile.length >= 2 && data.mediaFile.length <= 10;
+    },
+    {
+      message: "A carousel needs between 2 and 10 images or videos.",
+      path: ["mediaFile"],
+    }
   );
 
 type FormValues = z.infer<typeof formSchema>;
 
+/** Select value for generating without a brand profile. */
+const NO_BRAND_PROFILE = "none";
+
+function readFileAsMediaItem(file: File): Promise<MediaItem> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      if (event.target?.result) {
+        resolve({
+          dataUri: event.target.result as string,
+          mediaType: file.type.startsWith("video/") ? "video" : "image",
+        });
+      } else {
+        reject(new Error("Failed to read file."));
+      }
+    };
+    reader.onerror = (error) => reject(error);
+    reader.readAsDataURL(file);
+  });
+}
+
 export function AdGeneratorForm() {
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [isPublishing, setIsPublishing] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const searchParams = useSearchParams();
+  // Days clicked in the content calendar open the generator with ?date=yyyy-MM-dd.
+  const [scheduledAt, setScheduledAt] = useState(() => {
+    const date = searchParams.get("date");
+    return date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T09:00` : "";
+  });
   const [generatedContent, setGeneratedContent] = useState<GeneratedAdContent | null>(null);
+  // The saved draft being edited, with the files it holds in Cloud Storage.
+  const [draft, setDraft] = useState<{ id: string; media: StoredMedia[] } | null>(null);
+  // Whether the draft's files still match the media shown, so saving can skip the upload.
+  const [mediaSaved, setMediaSaved] = useState(false);
+  const [regenerating, setRegenerating] = useState<"caption" | "hashtags" | "media" | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<MediaItem[]>([]);
+  const [publishTargets, setPublishTargets] = useState<PublishTarget[]>(["FEED"]);
+  const [hashtagPlacement, setHashtagPlacement] = useState<HashtagPlacement>("caption");
+  const connectedAccounts = useConnectedAccounts();
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[] | null>(null);
+  // Until the user picks, publish to the account connected first.
+  const accountIds = selectedAccountIds ?? (connectedAccounts?.[0] ? [connectedAccounts[0].id] : []);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>({});
+  // Locales to write an adapted caption and hashtags for, next to the main ones.
+  const [locales, setLocales] = useState<string[]>([]);
+  const [hashtagMix, setHashtagMix] = useState<HashtagMix>(DEFAULT_HASHTAG_MIX);
+  const brandProfiles = useBrandProfiles();
+  const [selectedBrandProfileId, setSelectedBrandProfileId] = useState<string | null>(null);
+  // Until the user picks, use the brand profile linked to an account being published to.
+  const brandProfileId =
+    selectedBrandProfileId ??
+    brandProfiles?.find((profile) => profile.accountId && accountIds.includes(profile.accountId))?.id ??
+    NO_BRAND_PROFILE;
+  const deadAccounts = (connectedAccounts ?? []).filter(
+    (account) =>
+      accountIds.includes(account.id) &&
+      (account.tokenHealth.status === "expired" || account.tokenHealth.status === "invalid")
+  );
+
+  const reelAvailable = canPublishReel(generatedContent?.media);
+  const isBusy = isPublishing || isScheduling || isSaving || regenerating !== null;
+
+  function updateContent(changes: Partial<GeneratedAdContent>) {
+    setGeneratedContent((current) => current && { ...current, ...changes });
+    if (changes.media) setMediaSaved(false);
+  }
+
+  /** Makes a caption variant the caption, or with `merge` appends it for editing. */
+  function applyCaptionVariant(index: number, merge: boolean) {
+    setGeneratedContent((current) => {
+      if (!current?.captionVariants) return current;
+      const variant = current.captionVariants[index];
+      return {
+        ...current,
+        caption: merge ? `${current.caption.trimEnd()}\n\n${variant.caption}` : variant.caption,
+        captionVariants: current.captionVariants.map((v, i) =>
+          i === index ? { ...v, chosen: true } : merge ? v : { ...v, chosen: false }
+        ),
+      };
+    });
+  }
+
+  async function generationOptions(): Promise<GenerationOptions> {
+    return {
+      captionStyle,
+      locales,
+      hashtagMix,
+      format: form.getValues("format"),
+      fit: form.getValues("fit"),
+      idToken: await auth.currentUser?.getIdToken(),
+      brandProfileId: brandProfileId !== NO_BRAND_PROFILE ? brandProfileId : undefined,
+    };
+  }
+
+  /** Regenerates one part of the ad from the current prompt, leaving the rest as edited. */
+  async function handleRegenerate(part: "caption" | "hashtags" | "media", feedback: string) {
+    if (!generatedContent) return;
+    const prompt = form.getValues("prompt");
+    // As on generation, captions and hashtags describe uploaded media.
+    const uploadedMedia = mediaType.startsWith("upload_") ? generatedContent.media : undefined;
+    setRegenerating(part);
+    const result =
+      part === "caption"
+        ? await regenerateAdCaption(
+            prompt,
+            feedback,
+            generatedContent.caption,
+            uploadedMedia,
+            await generationOptions()
+          )
+        : part === "hashtags"
+          ? await regenerateAdHashtags(
+              prompt,
+              feedback,
+              generatedContent.hashtags,
+              uploadedMedia,
+              await generationOptions()
+            )
+          : await regenerateAdMedia(
+              prompt,
+              mediaType === "video" ? "video" : "image",
+              feedback,
+              await generationOptions()
+            );
+    if ("error" in result) {
+      toast({ title: "Regeneration Failed", description: result.error, variant: "destructive" });
+    } else {
+      updateContent(result);
+    }
+    setRegenerating(null);
+  }
+
+  async function handleReplaceMedia(event: ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = "";
+    if (files.length === 0) return;
+    if (files.length > 10) {
+      toast({
+        title: "Too Many Files",
+        description: "A carousel holds at most 10 images or videos.",
+        variant: "destructive",
+      });
+      return;
+    }
+    try {
+      updateContent({ media: await Promise.all(files.map(readFileAsMediaItem)) });
+    } catch (e) {
+      toast({ title: "File Read Error", description: (e as Error).message, variant: "destructive" });
+    }
+  }
+
+  /** Toasts and returns false if the edited captions or hashtags break Instagram's limits. */
+  function checkContent(content: GeneratedAdContent) {
+    let invalid = validateAdContent(content, hashtagPlacement);
+    for (const variant of content.localeVariants ?? []) {
+      const variantInvalid = validateAdContent(variant, hashtagPlacement);
+      invalid ||= variantInvalid && `${localeLabel(variant.locale)}: ${variantInvalid}`;
+    }
+    if (invalid) {
+      toast({ title: "Caption Too Long", description: invalid, variant: "destructive" });
+    }
+    return !invalid;
+  }
+
+  function setCoverTime(seconds: number) {
+    setMediaSaved(false);
+    setGeneratedContent((current) =>
+      current && {
+        ...current,
+        media: current.media.map((item, index) =>
+          index === 0 ? { ...item, coverTimeSeconds: seconds } : item
+        ),
+      }
+    );
+  }
+
+  function togglePublishTarget(target: PublishTarget, checked: boolean) {
+    setPublishTargets((current) =>
+      checked ? [...current, target] : current.filter((t) => t !== target)
+    );
+  }
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
@@ -77,22 +322,58 @@ export function AdGeneratorForm() {
       prompt: "",
       mediaType: "image",
       mediaFile: undefined,
+      captionCount: 1,
+      format: DEFAULT_MEDIA_FORMAT,
+      fit: "crop",
     },
   });
 
   const mediaType = form.watch("mediaType");
   const mediaFile = form.watch("mediaFile");
 
+  // The ad detail page opens the generator with ?draft=<adId> to edit a draft
+  // and with ?from=<adId> to start a new ad from a copy.
+  const draftParam = searchParams.get("draft");
+  const sourceAdId = draftParam ?? searchParams.get("from");
+  useEffect(() => {
+    if (!sourceAdId) return;
+    return onAuthStateChanged(auth, async (currentUser) => {
+      if (!currentUser) return;
+      setIsLoading(true);
+      const result = await loadAdIntoGenerator(sourceAdId, await currentUser.getIdToken());
+      if ("error" in result) {
+        setError(result.error);
+        toast({ title: "Could Not Load Ad", description: result.error, variant: "destructive" });
+      } else {
+        form.setValue("prompt", result.prompt);
+        if (result.generation) {
+          form.setValue("mediaType", result.generation.mediaOption);
+          form.setValue("captionCount", result.generation.captionCount ?? 1);
+          form.setValue("format", result.generation.format ?? DEFAULT_MEDIA_FORMAT);
+          form.setValue("fit", result.generation.fit ?? "crop");
+          setSelectedBrandProfileId(result.generation.brandProfileId ?? NO_BRAND_PROFILE);
+          setCaptionStyle(result.generation.captionStyle ?? {});
+          setLocales(result.generation.locales ?? []);
+          setHashtagMix(result.generation.hashtagMix ?? DEFAULT_HASHTAG_MIX);
+        }
+        setGeneratedContent(result.content);
+        // Only drafts are edited in place; anything else is saved as a new ad.
+        if (draftParam && result.status === "draft") {
+          setDraft({ id: sourceAdId, media: result.storedMedia });
+          setMediaSaved(result.storedMedia.length > 0);
+        }
+      }
+      setIsLoading(false);
+    });
+  }, [sourceAdId]);
+
   useEffect(() => {
     if (mediaFile && mediaFile.length > 0) {
-      const file = mediaFile[0];
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+      Promise.all(Array.from(mediaFile as FileList).map(readFileAsMediaItem))
+        .then(setPreviews)
+        .catch(() => setPreviews([]));
     } else {
-      setPreviewUrl(null);
+      setPreviews([]);
     }
   }, [mediaFile]);
 
@@ -100,27 +381,20 @@ export function AdGeneratorForm() {
     setIsLoading(true);
     setGeneratedContent(null);
     setError(null);
+    // Generating starts a new ad; the draft that was open stays as it was saved.
+    setDraft(null);
+    setMediaSaved(false);
 
-    let mediaDataUri: string | undefined = undefined;
+    let uploadedMedia: MediaItem[] | undefined = undefined;
     const isUpload = values.mediaType.startsWith("upload_");
     const finalMediaType = values.mediaType.includes("video") ? "video" : "image";
 
-    // Handle uploaded file
+    // Handle uploaded files, keeping the order they were selected in
     if (isUpload && values.mediaFile && values.mediaFile.length > 0) {
-      const file = values.mediaFile[0];
       try {
-        mediaDataUri = await new Promise((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            if (event.target?.result) {
-              resolve(event.target.result as string);
-            } else {
-              reject(new Error("Failed to read file."));
-            }
-          };
-          reader.onerror = (error) => reject(error);
-          reader.readAsDataURL(file);
-        });
+        uploadedMedia = await Promise.all(
+          Array.from(values.mediaFile as FileList).map(readFileAsMediaItem)
+        );
       } catch (e) {
         const err = e as Error;
         setError(err.message);
@@ -131,7 +405,10 @@ export function AdGeneratorForm() {
     }
 
     // Call server action to generate content
-    const result = await generateAdContent(values.prompt, finalMediaType, mediaDataUri);
+    const result = await generateAdContent(values.prompt, finalMediaType, uploadedMedia, {
+      ...(await generationOptions()),
+      captionCount: values.captionCount,
+    });
 
     if (result.error) {
       setError(result.error);
@@ -147,7 +424,23 @@ export function AdGeneratorForm() {
   }
 
   async function handleSaveAd() {
-    if (!generatedContent) return;
+    if (!generatedContent || !checkContent(generatedContent)) return;
+    const updating = draft !== null;
+    if (await saveAd()) {
+      toast({
+        title: updating ? "Draft Updated" : "Draft Saved!",
+        description: "You can reopen it from Ads History.",
+      });
+    }
+  }
+
+  /**
+   * Saves the generated ad as a draft and returns its ID, or null if it could
+   * not be saved. Failures are reported to the user here. Publishing and
+   * scheduling update the ad on the server.
+   */
+  async function saveAd(): Promise<string | null> {
+    if (!generatedContent) return null;
     setIsSaving(true);
 
     const currentUser = auth.currentUser;
@@ -158,25 +451,78 @@ export function AdGeneratorForm() {
         variant: "destructive",
       });
       setIsSaving(false);
-      return;
+      return null;
     }
 
+    const adRef = draft ? doc(db, "ads", draft.id) : doc(collection(db, "ads"));
     try {
-      const adToSave = {
+      // Media goes to Cloud Storage; data URIs would overflow the 1 MiB document limit.
+      const media =
+        draft && mediaSaved
+          ? draft.media
+          : await uploadAdMedia(
+              storage,
+              currentUser.uid,
+              adRef.id,
+              generatedContent.media,
+              async (storagePath, atSeconds) =>
+                createAdVideoPoster(await currentUser.getIdToken(), storagePath, atSeconds)
+            );
+      const cover = media[0];
+      // History shows the largest thumbnail rather than the full-size frame.
+      const posterUrl = cover?.thumbnails?.[cover.thumbnails.length - 1]?.url ?? cover?.posterUrl;
+      const adFields = {
         prompt: form.getValues("prompt"),
         caption: generatedContent.caption,
         hashtags: generatedContent.hashtags,
-        imageUrl: generatedContent.imageDataUri || (generatedContent.videoDataUri ? "https://placehold.co/600x400.png?text=Video+Ad" : ""),
-        createdAt: serverTimestamp(),
-        userId: currentUser.uid,
+        imageUrl: cover?.mediaType === "image" ? cover.downloadUrl : (posterUrl ?? "https://placehold.co/600x400.png?text=Video+Ad"),
+        mediaType: cover?.mediaType ?? "image",
+        ...(cover?.mediaType === "video"
+          ? { videoUrl: cover.downloadUrl, ...(posterUrl ? { posterUrl } : {}) }
+          : {}),
+        media,
+        // The variants record which captions were picked and which were rejected.
+        ...(generatedContent.captionVariants ? { captionVariants: generatedContent.captionVariants } : {}),
+        ...(generatedContent.localeVariants ? { localeVariants: generatedContent.localeVariants } : {}),
       };
 
-      await addDoc(collection(db, "ads"), adToSave);
+      if (draft) {
+        // Updates keep the draft's creation time and generation settings.
+        await updateDoc(adRef, {
+          videoUrl: deleteField(),
+          posterUrl: deleteField(),
+          captionVariants: deleteField(),
+          localeVariants: deleteField(),
+          ...adFields,
+        });
+        const kept = new Set(storedMediaPaths(media));
+        await deleteStoredFiles(
+          storage,
+          storedMediaPaths(draft.media).filter((path) => !kept.has(path))
+        );
+      } else {
+        await setDoc(adRef, {
+          ...adFields,
+          generation: {
+            mediaOption: form.getValues("mediaType"),
+            captionCount: form.getValues("captionCount"),
+            ...(form.getValues("mediaType").startsWith("upload_")
+              ? {}
+              : { format: form.getValues("format"), fit: form.getValues("fit") }),
+            ...(brandProfileId !== NO_BRAND_PROFILE ? { brandProfileId } : {}),
+            ...(Object.keys(captionStyle).length > 0 ? { captionStyle } : {}),
+            ...(locales.length > 0 ? { locales } : {}),
+            hashtagMix,
+          },
+          status: "draft",
+          createdAt: serverTimestamp(),
+          userId: currentUser.uid,
+        });
+      }
 
-      toast({
-        title: "Ad Saved!",
-        description: "Your generated ad has been saved to your history.",
-      });
+      setDraft({ id: adRef.id, media });
+      setMediaSaved(true);
+      return adRef.id;
     } catch (error) {
       console.error("Error saving ad:", error);
       toast({
@@ -184,11 +530,110 @@ export function AdGeneratorForm() {
         description: "Could not save the ad. Please check the console for errors.",
         variant: "destructive",
       });
+      return null;
     } finally {
       setIsSaving(false);
     }
   }
 
+  function getSelectedTargets(): PublishTarget[] | null {
+    if (!generatedContent || !checkContent(generatedContent)) return null;
+
+    if (accountIds.length === 0) {
+      toast({
+        title: "No Account Selected",
+        description: "Select at least one Instagram account to publish to.",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    if (deadAccounts.length > 0) {
+      toast({
+        title: "Instagram Token Not Valid",
+        description: `Update the access token of ${deadAccounts.map((a) => a.label).join(", ")} on the Credentials page before publishing.`,
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    const targets = publishTargets.filter((t) => t !== "REELS" || reelAvailable);
+    if (targets.length === 0) {
+      toast({
+        title: "Nothing to Publish",
+        description: "Select at least one of feed, reel or story.",
+        variant: "destructive",
+      });
+      return null;
+    }
+    return targets;
+  }
+
+  async function handleSchedule() {
+    if (!generatedContent) return;
+
+    const currentUser = auth.currentUser;
+    if (!currentUser) {
+      toast({
+        title: "Authentication Error",
+        description: "You must be logged in to schedule an ad.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const targets = getSelectedTargets();
+    if (!targets) return;
+
+    if (!scheduledAt) {
+      toast({
+        title: "Missing Date",
+        description: "Pick the date and time the ad should be published.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsScheduling(true);
+
+    // The ad is saved as a draft first, so jobs are only queued for an ad that exists.
+    const adId = await saveAd();
+    if (!adId) {
+      setIsScheduling(false);
+      return;
+    }
+    const scheduledDate = new Date(scheduledAt);
+
+    // datetime-local values are in the browser's time zone; send an absolute time.
+    const result = await schedulePublishToInstagram(
+      generatedContent,
+      await currentUser.getIdToken(),
+      targets,
+      scheduledDate.toISOString(),
+      accountIds,
+      adId,
+      hashtagPlacement
+    );
+
+    if ("error" in result) {
+      toast({
+        title: "Scheduling Failed",
+        description: result.error,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Ad Scheduled",
+        description: `Your ad will be published on ${scheduledDate.toLocaleString()}.`,
+      });
+      // Once scheduled, further saves create a new ad.
+      setDraft(null);
+      setMediaSaved(false);
+    }
+
+    setIsScheduling(false);
+  }
+
   async function handlePublish() {
     if (!generatedContent) return;
 
@@ -202,22 +647,51 @@ export function AdGeneratorForm() {
       return;
     }
 
+    const targets = getSelectedTargets();
+    if (!targets) return;
+
     setIsPublishing(true);
 
-    const result = await publishAdToInstagram(generatedContent, currentUser.uid);
+    const adId = await saveAd();
+    if (!adId) {
+      setIsPublishing(false);
+      return;
+    }
+
+    const result = await publishAdToInstagram(
+      generatedContent,
+      await currentUser.getIdToken(),
+      adId,
+      targets,
+      accountIds,
+      hashtagPlacement
+    );
 
-    if (result.error) {
+    if ("error" in result) {
       toast({
         title: "Publishing Failed",
         description: result.error,
         variant: "destructive",
       });
     } else {
+      const failed = result.posts.filter((post) => post.error);
+      const published = result.posts.filter((post) => post.postId);
+      const accountLabel = (accountId?: string) =>
+        connectedAccounts?.find((a) => a.id === accountId)?.label ?? "Instagram";
       toast({
-        title: "Published Successfully!",
-        description: `Your ad has been posted to Instagram with ID: ${result.postId}`,
+        title: failed.length > 0 ? "Partially Published" : "Published Successfully!",
+        description: [
+          ...published.map((post) => `${accountLabel(post.accountId)} ${post.target}: posted with ID ${post.postId}`),
+          ...failed.map((post) => `${accountLabel(post.accountId)} ${post.target}: ${post.error}`),
+          ...published
+            .filter((post) => post.commentError)
+            .map((post) => `${accountLabel(post.accountId)} ${post.target}: hashtags not commented (${post.commentError})`),
+        ].join("\n"),
+        variant: failed.length > 0 ? "destructive" : "default",
       });
-      await handleSaveAd();
+      // Once published, further saves create a new ad.
+      setDraft(null);
+      setMediaSaved(false);
     }
 
     setIsPublishing(false);
@@ -295,6 +769,15 @@ export function AdGeneratorForm() {
                       <Upload className="h-8 w-8" />
                       <span>Upload Video</span>
                     </Button>
+                    <Button
+                      type="button"
+                      variant={field.value === "upload_carousel" ? "default" : "outline"}
+                      className="col-span-2 h-24 flex-col gap-2"
+                      onClick={() => field.onChange("upload_carousel")}
+                    >
+                      <GalleryHorizontal className="h-8 w-8" />
+                      <span>Upload Carousel (2-10 files)</span>
+                    </Button>
                   </div>
                 </FormControl>
                  <FormMessage />
@@ -302,7 +785,60 @@ export function AdGeneratorForm() {
             )}
           />
 
-          {(mediaType === "upload_image" || mediaType === "upload_video") && (
+          {!mediaType.startsWith("upload_") && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="format"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-lg font-semibold">Format</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(MEDIA_FORMATS).map(([format, preset]) => (
+                          <SelectItem key={format} value={format}>
+                            {preset.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-lg font-semibold">If the size differs</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(MEDIA_FIT_LABELS).map(([fit, label]) => (
+                          <SelectItem key={fit} value={fit}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          {mediaType.startsWith("upload_") && (
             <FormField
               control={form.control}
               name="mediaFile"
@@ -312,7 +848,14 @@ export function AdGeneratorForm() {
                   <FormControl>
                     <Input
                       type="file"
-                      accept={mediaType === "upload_image" ? "image/*" : "video/*"}
+                      accept={
+                        mediaType === "upload_image"
+                          ? "image/*"
+                          : mediaType === "upload_video"
+                            ? "video/*"
+                            : "image/*,video/*"
+                      }
+                      multiple={mediaType === "upload_carousel"}
                       {...fileRef}
                     />
                   </FormControl>
@@ -322,23 +865,106 @@ export function AdGeneratorForm() {
             />
           )}
 
-          {previewUrl && (
-            <div className="flex justify-center">
-              {mediaType.includes('image') ? (
-                <Image
-                  src={previewUrl}
-                  alt="Uploaded preview"
-                  width={200}
-                  height={200}
-                  className="rounded-lg object-cover"
-                />
-              ) : (
-                <video src={previewUrl} controls className="w-full max-w-sm rounded-lg" />
+          {previews.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-4">
+              {previews.map((item, index) =>
+                item.mediaType === "image" ? (
+                  <Image
+                    key={index}
+                    src={item.dataUri}
+                    alt={`Uploaded preview ${index + 1}`}
+                    width={200}
+                    height={200}
+                    className="rounded-lg object-cover"
+                  />
+                ) : (
+                  <video key={index} src={item.dataUri} controls className="w-full max-w-sm rounded-lg" />
+                )
               )}
             </div>
           )}
 
 
+          <FormField
+            control={form.control}
+            name="captionCount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel className="text-lg font-semibold">Captions</FormLabel>
+                <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {CAPTION_VARIANT_COUNTS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count === 1 ? "One caption" : `${count} variants to compare`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="space-y-2">
+            <p className="text-lg font-semibold">Caption Style</p>
+            <CaptionStyleControls value={captionStyle} onChange={setCaptionStyle} disabled={isLoading} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-lg font-semibold">Hashtag Mix</p>
+            <HashtagMixControls value={hashtagMix} onChange={setHashtagMix} disabled={isLoading} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-lg font-semibold">Localized Versions</p>
+            <p className="text-sm text-muted-foreground">
+              Also write the caption and hashtags for these markets, adapted rather than translated.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {Object.entries(LOCALES).map(([locale, label]) => (
+                <div key={locale} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`locale-${locale}`}
+                    checked={locales.includes(locale)}
+                    disabled={isLoading}
+                    onCheckedChange={(checked) =>
+                      setLocales((current) =>
+                        checked === true ? [...current, locale] : current.filter((l) => l !== locale)
+                      )
+                    }
+                  />
+                  <Label htmlFor={`locale-${locale}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {brandProfiles && brandProfiles.length > 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="brand-profile" className="text-lg font-semibold">
+                Brand Profile
+              </Label>
+              <Select value={brandProfileId} onValueChange={setSelectedBrandProfileId}>
+                <SelectTrigger id="brand-profile">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BRAND_PROFILE}>No brand profile</SelectItem>
+                  {brandProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.brandName}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <Button type="submit" size="lg" className="w-full" disabled={isLoading}>
             {isLoading ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -368,82 +994,194 @@ export function AdGeneratorForm() {
         <div className="space-y-8 rounded-lg border bg-card p-6 shadow-sm">
           <h2 className="text-2xl font-bold text-center">Generated Ad</h2>
           <div className="space-y-6">
-            {(generatedContent.imageDataUri || generatedContent.videoDataUri) && (
+            {generatedContent.media.length > 0 && (
               <Card>
-                <CardHeader>
+                <CardHeader className="flex-row items-center justify-between space-y-0">
                   <CardTitle className="flex items-center gap-2">
-                    {generatedContent.imageDataUri ? (
+                    {generatedContent.media.length > 1 ? (
+                      <GalleryHorizontal />
+                    ) : generatedContent.media[0].mediaType === "image" ? (
                       <ImageIcon />
                     ) : (
                       <Video />
                     )}
-                    Generated Media
+                    {generatedContent.media.length > 1
+                      ? `Carousel (${generatedContent.media.length} slides)`
+                      : "Generated Media"}
                   </CardTitle>
+                  <div className="flex gap-2">
+                    {(mediaType === "image" || mediaType === "video") && (
+                      <RegenerateButton
+                        part={mediaType}
+                        onRegenerate={(feedback) => handleRegenerate("media", feedback)}
+                        isRegenerating={regenerating === "media"}
+                        disabled={isBusy}
+                      />
+                    )}
+                    <Button variant="outline" size="sm" disabled={isBusy} asChild>
+                      <label className="cursor-pointer">
+                        <Replace className="mr-2 h-4 w-4" />
+                        Replace
+                        <input
+                          type="file"
+                          accept="image/*,video/*"
+                          multiple
+                          className="sr-only"
+                          onChange={handleReplaceMedia}
+                          disabled={isBusy}
+                        />
+                      </label>
+                    </Button>
+                  </div>
                 </CardHeader>
-                <CardContent>
-                  {generatedContent.imageDataUri ? (
-                    <Image
-                      src={generatedContent.imageDataUri}
-                      alt="Generated ad media"
-                      width={500}
-                      height={500}
-                      className="mx-auto rounded-lg"
+                <CardContent className="space-y-4">
+                  {generatedContent.media.map((item, index) =>
+                    item.mediaType === "image" ? (
+                      <Image
+                        key={index}
+                        src={item.dataUri}
+                        alt={`Generated ad media ${index + 1}`}
+                        width={500}
+                        height={500}
+                        className="mx-auto rounded-lg"
+                      />
+                    ) : (
+                      <video key={index} src={item.dataUri} controls className="w-full rounded-lg" />
+                    )
+                  )}
+                  {reelAvailable && (
+                    <CoverFramePicker
+                      videoSrc={generatedContent.media[0].dataUri}
+                      value={generatedContent.media[0].coverTimeSeconds ?? 0}
+                      onChange={setCoverTime}
+                      disabled={isBusy}
                     />
-                  ) : (
-                    <video src={generatedContent.videoDataUri} controls className="w-full rounded-lg" />
                   )}
                 </CardContent>
               </Card>
             )}
 
             <Card>
-              <CardHeader>
+              <CardHeader className="flex-row items-center justify-between space-y-0">
                 <CardTitle className="flex items-center gap-2">
                   <FileText />
-                  Generated Caption
+                  Caption
                 </CardTitle>
+                <RegenerateButton
+                  part="caption"
+                  onRegenerate={(feedback) => handleRegenerate("caption", feedback)}
+                  isRegenerating={regenerating === "caption"}
+                  disabled={isBusy}
+                />
               </CardHeader>
-              <CardContent>
-                <p className="text-muted-foreground whitespace-pre-wrap">
-                  {generatedContent.caption}
-                </p>
+              <CardContent className="space-y-4">
+                {generatedContent.captionVariants && (
+                  <CaptionVariants
+                    variants={generatedContent.captionVariants}
+                    onUse={(index) => applyCaptionVariant(index, false)}
+                    onMerge={(index) => applyCaptionVariant(index, true)}
+                    disabled={isBusy}
+                  />
+                )}
+                <CaptionEditor
+                  caption={generatedContent.caption}
+                  hashtags={hashtagPlacement === "caption" ? generatedContent.hashtags : []}
+                  style={captionStyle}
+                  onChange={(caption) => updateContent({ caption })}
+                  disabled={isBusy}
+                />
               </CardContent>
             </Card>
 
             <Card>
-              <CardHeader>
+              <CardHeader className="flex-row items-center justify-between space-y-0">
                 <CardTitle className="flex items-center gap-2">
                   <Sparkles />
-                  Generated Hashtags
+                  Hashtags
                 </CardTitle>
+                <div className="flex gap-2">
+                  <HashtagSetsMenu
+                    hashtags={generatedContent.hashtags}
+                    onAdd={(hashtags) =>
+                      updateContent({ hashtags: cleanHashtags([...generatedContent.hashtags, ...hashtags]) })
+                    }
+                    disabled={isBusy}
+                  />
+                  <RegenerateButton
+                    part="hashtags"
+                    onRegenerate={(feedback) => handleRegenerate("hashtags", feedback)}
+                    isRegenerating={regenerating === "hashtags"}
+                    disabled={isBusy}
+                  />
+                </div>
               </CardHeader>
-              <CardContent className="flex flex-wrap gap-2">
-                {generatedContent.hashtags.map((tag) => (
-                  <Badge key={tag} variant="secondary">
-                    {tag}
-                  </Badge>
-                ))}
+              <CardContent>
+                <HashtagEditor
+                  hashtags={generatedContent.hashtags}
+                  onChange={(hashtags) => updateContent({ hashtags })}
+                  disabled={isBusy}
+                />
               </CardContent>
             </Card>
+
+            {generatedContent.localeVariants && (
+              <LocaleVariantsEditor
+                variants={generatedContent.localeVariants}
+                accounts={connectedAccounts}
+                onChange={(localeVariants) => updateContent({ localeVariants })}
+                hashtagPlacement={hashtagPlacement}
+                disabled={isBusy}
+              />
+            )}
+          </div>
+          <AccountPicker
+            accounts={connectedAccounts}
+            selectedIds={accountIds}
+            onChange={setSelectedAccountIds}
+            disabled={isPublishing || isScheduling}
+          />
+          <div className="space-y-2">
+            <p className="text-sm font-semibold">Publish as</p>
+            <div className="flex flex-wrap gap-6">
+              {PUBLISH_TARGET_OPTIONS.map((option) => {
+                const disabled = option.value === "REELS" && !reelAvailable;
+                return (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`publish-target-${option.value}`}
+                      checked={publishTargets.includes(option.value) && !disabled}
+                      disabled={disabled || isPublishing}
+                      onCheckedChange={(checked) => togglePublishTarget(option.value, checked === true)}
+                    />
+                    <Label htmlFor={`publish-target-${option.value}`}>{option.label}</Label>
+                  </div>
+                );
+              })}
+            </div>
           </div>
+          <HashtagPlacementPicker
+            value={hashtagPlacement}
+            onChange={setHashtagPlacement}
+            disabled={isPublishing || isScheduling}
+          />
           <div className="flex flex-col sm:flex-row gap-4">
              <Button
               onClick={handleSaveAd}
               variant="outline"
               className="w-full"
-              disabled={isSaving || isPublishing}
+              disabled={isSaving || isPublishing || isScheduling}
             >
               {isSaving ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
               ) : (
                 <Check className="mr-2 h-4 w-4" />
               )}
-              Save Ad
+              {draft ? "Update Draft" : "Save Draft"}
             </Button>
             <Button
               onClick={handlePublish}
               className="w-full"
-              disabled={isPublishing || isSaving}
+              disabled={isPublishing || isSaving || isScheduling}
             >
               {isPublishing ? (
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
@@ -453,6 +1191,28 @@ export function AdGeneratorForm() {
               Publish to Instagram
             </Button>
           </div>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Input
+              type="datetime-local"
+              aria-label="Publish date and time"
+              value={scheduledAt}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              disabled={isScheduling}
+            />
+            <Button
+              onClick={handleSchedule}
+              variant="secondary"
+              className="w-full"
+              disabled={isScheduling || isPublishing || isSaving}
+            >
+              {isScheduling ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <CalendarClock className="mr-2 h-4 w-4" />
+              )}
+              Schedule Post
+            </Button>
+          </div>
         </div>
       )}
     </div>
@@ -1,44 +1,97 @@
-
 "use client";
 
-import { useState, useEffect } from "react";
-import { collection, query, orderBy, onSnapshot } from "firebase/firestore";
-import { db } from "@/lib/firebase";
+import { useState, useEffect, useRef, useCallback } from "react";
+import {
+  collection,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDocs,
+  type QueryDocumentSnapshot,
+} from "firebase/firestore";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { Loader2 } from "lucide-react";
+import { auth, db } from "@/lib/firebase";
 import { Ad } from "@/lib/types";
+import { toAd } from "@/lib/ads";
 import { AdCard } from "./ad-card";
+import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 
+const PAGE_SIZE = 12;
+
 export function AdsHistoryList() {
+  const [user, setUser] = useState<User | null>(null);
   const [ads, setAds] = useState<Ad[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const cursor = useRef<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const sentinel = useRef<HTMLDivElement>(null);
+
+  // Fetches the page after `cursor`, or the first page when it is null.
+  const loadPage = useCallback(async (userId: string) => {
+    const constraints = [
+      where("userId", "==", userId),
+      orderBy("createdAt", "desc"),
+      ...(cursor.current ? [startAfter(cursor.current)] : []),
+      limit(PAGE_SIZE),
+    ];
+    const snapshot = await getDocs(query(collection(db, "ads"), ...constraints));
+    cursor.current = snapshot.docs[snapshot.docs.length - 1] ?? cursor.current;
+    setHasMore(snapshot.docs.length === PAGE_SIZE);
+    return snapshot.docs.map((adDoc) => toAd(adDoc.id, adDoc.data()));
+  }, []);
 
   useEffect(() => {
-    const q = query(collection(db, "ads"), orderBy("createdAt", "desc"));
-    const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      const adsData: Ad[] = [];
-      querySnapshot.forEach((doc) => {
-        const data = doc.data();
-        adsData.push({
-          id: doc.id,
-          prompt: data.prompt,
-          caption: data.caption,
-          hashtags: data.hashtags,
-          imageUrl: data.imageUrl,
-          // Convert Firestore Timestamp to ISO string
-          createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
-        });
-      });
-      setAds(adsData);
-      setIsLoading(false);
-    }, (err) => {
-      console.error("Error fetching ads:", err);
-      setError("Failed to fetch ad history. Please ensure your Firebase setup is correct.");
+    return onAuthStateChanged(auth, async (currentUser) => {
+      setUser(currentUser);
+      setAds([]);
+      setError(null);
+      cursor.current = null;
+      if (!currentUser) {
+        setHasMore(false);
+        setIsLoading(false);
+        return;
+      }
+      setIsLoading(true);
+      try {
+        setAds(await loadPage(currentUser.uid));
+      } catch (err) {
+        console.error("Error fetching ads:", err);
+        setError("Failed to fetch ad history. Please ensure your Firebase setup is correct.");
+      }
       setIsLoading(false);
     });
+  }, [loadPage]);
 
-    return () => unsubscribe();
-  }, []);
+  const loadMore = useCallback(async () => {
+    if (!user || !hasMore || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await loadPage(user.uid);
+      setAds((current) => [...current, ...page]);
+    } catch (err) {
+      console.error("Error fetching more ads:", err);
+      setError("Failed to fetch more ads. Please reload the page to try again.");
+      setHasMore(false);
+    }
+    setIsLoadingMore(false);
+  }, [user, hasMore, isLoadingMore, loadPage]);
+
+  // Load the next page when the end of the list scrolls into view.
+  useEffect(() => {
+    const target = sentinel.current;
+    if (!target || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore();
+    });
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
 
   if (isLoading) {
     return (
@@ -56,7 +109,18 @@ export function AdsHistoryList() {
     );
   }
 
-  if (error) {
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Sign In Required</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Log in to see the ads you have generated.
+        </p>
+      </div>
+    );
+  }
+
+  if (error && ads.length === 0) {
      return (
       <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-destructive/50 bg-destructive/10 p-12 text-center h-96">
         <h3 className="text-xl font-semibold text-destructive">An Error Occurred</h3>
@@ -66,7 +130,7 @@ export function AdsHistoryList() {
       </div>
     );
   }
-  
+
   if (ads.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
@@ -79,10 +143,21 @@ export function AdsHistoryList() {
   }
 
   return (
-    <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-      {ads.map((ad) => (
-        <AdCard key={ad.id} ad={ad} />
-      ))}
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+        {ads.map((ad) => (
+          <AdCard key={ad.id} ad={ad} />
+        ))}
+      </div>
+      {error && <p className="text-center text-sm text-destructive">{error}</p>}
+      {hasMore && (
+        <div ref={sentinel} className="flex justify-center">
+          <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+            {isLoadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Load More
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+
+import { auth, db } from "@/lib/firebase";
+import { toAd } from "@/lib/ads";
+import { INSIGHT_METRICS, sumMetrics, toMediaInsights } from "@/lib/insights";
+import type { Ad, InsightMetric, MediaInsights } from "@/lib/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+const metricLabels: Record<InsightMetric, string> = {
+  reach: "Reach",
+  impressions: "Impressions",
+  likes: "Likes",
+  comments: "Comments",
+  saves: "Saves",
+  shares: "Shares",
+  plays: "Plays",
+};
+
+const perAdChartConfig = {
+  reach: { label: "Reach", color: "hsl(var(--chart-1))" },
+  engagement: { label: "Engagement", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const metricsChartConfig = {
+  value: { label: "Value", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+/** Likes, comments, saves and shares added together. */
+function engagement(metrics: MediaInsights["metrics"]) {
+  return (metrics.likes ?? 0) + (metrics.comments ?? 0) + (metrics.saves ?? 0) + (metrics.shares ?? 0);
+}
+
+function MetricCards({ metrics }: { metrics: MediaInsights["metrics"] }) {
+  return (
+    <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+      {INSIGHT_METRICS.filter((metric) => metrics[metric] !== undefined).map((metric) => (
+        <Card key={metric}>
+          <CardHeader className="p-4 pb-0">
+            <CardDescription>{metricLabels[metric]}</CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 pt-1">
+            <p className="text-2xl font-bold">{metrics[metric]!.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+export function AnalyticsDashboard() {
+  const [user, setUser] = useState<User | null>(null);
+  const [ads, setAds] = useState<Ad[]>([]);
+  const [insights, setInsights] = useState<MediaInsights[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedAdId, setSelectedAdId] = useState<string | null>(null);
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, (currentUser) => {
+      setUser(currentUser);
+      if (!currentUser) setIsLoading(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const onError = (err: Error) => {
+      console.error("Error fetching analytics:", err);
+      setError("Failed to fetch analytics. Please ensure your Firebase setup is correct.");
+      setIsLoading(false);
+    };
+
+    const unsubscribeAds = onSnapshot(
+      query(collection(db, "ads"), where("userId", "==", user.uid), where("status", "==", "published")),
+      (snapshot) => setAds(snapshot.docs.map((adDoc) => toAd(adDoc.id, adDoc.data()))),
+      onError
+    );
+    const unsubscribeInsights = onSnapshot(
+      query(collection(db, "mediaInsights"), where("userId", "==", user.uid)),
+      (snapshot) => {
+        setInsights(snapshot.docs.map((insightDoc) => toMediaInsights(insightDoc.data())));
+        setIsLoading(false);
+      },
+      onError
+    );
+
+    return () => {
+      unsubscribeAds();
+      unsubscribeInsights();
+    };
+  }, [user]);
+
+  const insightsByAd = useMemo(() => {
+    const byAd = new Map<string, MediaInsights[]>();
+    for (const insight of insights) {
+      byAd.set(insight.adId, [...(byAd.get(insight.adId) ?? []), insight]);
+    }
+    return byAd;
+  }, [insights]);
+
+  const perAdData = useMemo(
+    () =>
+      ads
+        .filter((ad) => insightsByAd.has(ad.id))
+        .map((ad) => {
+          const totals = sumMetrics(insightsByAd.get(ad.id)!);
+          return {
+            adId: ad.id,
+            label: ad.caption.length > 24 ? `${ad.caption.slice(0, 24)}…` : ad.caption,
+            reach: totals.reach ?? 0,
+            engagement: engagement(totals),
+          };
+        })
+        .sort((a, b) => b.reach - a.reach)
+        .slice(0, 10),
+    [ads, insightsByAd]
+  );
+
+  const selectedAd = ads.find((ad) => ad.id === (selectedAdId ?? perAdData[0]?.adId));
+  const selectedInsights = selectedAd ? insightsByAd.get(selectedAd.id) ?? [] : [];
+  const selectedTotals = sumMetrics(selectedInsights);
+
+  if (isLoading) {
+    return <Skeleton className="h-[500px] w-full rounded-xl" />;
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Sign In Required</h3>
+        <p className="mt-2 text-sm text-muted-foreground">Log in to see how your posts perform.</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-destructive/50 bg-destructive/10 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold text-destructive">An Error Occurred</h3>
+        <p className="mt-2 text-sm text-destructive/80">{error}</p>
+      </div>
+    );
+  }
+
+  if (insights.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">No Insights Yet</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Insights for published posts appear here once they have been collected.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <Tabs defaultValue="overview" className="space-y-6">
+      <TabsList>
+        <TabsTrigger value="overview">All Ads</TabsTrigger>
+        <TabsTrigger value="ad">Per Ad</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="overview" className="space-y-6">
+        <MetricCards metrics={sumMetrics(insights)} />
+        <Card>
+          <CardHeader>
+            <CardTitle>Top Ads by Reach</CardTitle>
+            <CardDescription>Reach and engagement (likes, comments, saves and shares) per ad.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={perAdChartConfig} className="max-h-[400px] w-full">
+              <BarChart data={perAdData} accessibilityLayer>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="reach" fill="var(--color-reach)" radius={4} />
+                <Bar dataKey="engagement" fill="var(--color-engagement)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="ad" className="space-y-6">
+        <Select value={selectedAd?.id} onValueChange={setSelectedAdId}>
+          <SelectTrigger className="max-w-md">
+            <SelectValue placeholder="Select an ad" />
+          </SelectTrigger>
+          <SelectContent>
+            {ads
+              .filter((ad) => insightsByAd.has(ad.id))
+              .map((ad) => (
+                <SelectItem key={ad.id} value={ad.id}>
+                  {ad.caption.length > 60 ? `${ad.caption.slice(0, 60)}…` : ad.caption}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+
+        {selectedAd && (
+          <>
+            <MetricCards metrics={selectedTotals} />
+            <Card>
+              <CardHeader>
+                <CardTitle>Metrics</CardTitle>
+                <CardDescription>
+                  Totals across {selectedInsights.length} published post{selectedInsights.length === 1 ? "" : "s"}.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ChartContainer config={metricsChartConfig} className="max-h-[300px] w-full">
+                  <BarChart
+                    data={INSIGHT_METRICS.filter((metric) => selectedTotals[metric] !== undefined).map((metric) => ({
+                      metric: metricLabels[metric],
+                      value: selectedTotals[metric],
+                    }))}
+                    accessibilityLayer
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="metric" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="value" fill="var(--color-value)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <ul className="space-y-1 text-sm text-muted-foreground">
+                  {selectedInsights.map((insight) => (
+                    <li key={insight.postId}>
+                      {insight.mediaProductType} post{" "}
+                      {insight.permalink ? (
+                        <a href={insight.permalink} target="_blank" rel="noreferrer" className="underline">
+                          {insight.postId}
+                        </a>
+                      ) : (
+                        insight.postId
+                      )}{" "}
+                      — updated {new Date(insight.fetchedAt).toLocaleString()}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -3,7 +3,7 @@
 
 import React from "react";
 import { usePathname } from "next/navigation";
-import { Bot, KeyRound, LayoutDashboard, PenSquare } from "lucide-react";
+import { BarChart3, Bot, CalendarDays, KeyRound, LayoutDashboard, Palette, PenSquare } from "lucide-react";
 import Link from "next/link";
 
 import {
@@ -32,6 +32,21 @@ export function AppSidebar() {
       label: "Ad Generator",
       icon: PenSquare,
     },
+    {
+      href: "/dashboard/calendar",
+      label: "Calendar",
+      icon: CalendarDays,
+    },
+    {
+      href: "/dashboard/analytics",
+      label: "Analytics",
+      icon: BarChart3,
+    },
+    {
+      href: "/dashboard/brand-profiles",
+      label: "Brand Profiles",
+      icon: Palette,
+    },
     {
       href: "/dashboard/credentials",
       label: "Credentials",
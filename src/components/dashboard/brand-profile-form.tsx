@@ -0,0 +1,250 @@
+"use client";
+
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { EMOJI_POLICY_LABELS } from "@/lib/brand-profiles";
+import type { BrandProfile, BrandProfileFields, ConnectedAccount, EmojiPolicy } from "@/lib/types";
+
+const NO_ACCOUNT = "none";
+
+const formSchema = z.object({
+  brandName: z.string().trim().min(1, { message: "Enter the brand's name." }).max(100),
+  voice: z.string().max(1000),
+  doWords: z.string(),
+  dontWords: z.string(),
+  emojiPolicy: z.enum(["none", "sparing", "liberal"]),
+  defaultCta: z.string().max(200),
+  sampleCaptions: z.string().max(10000),
+  mandatoryHashtags: z.string(),
+  bannedHashtags: z.string(),
+  accountId: z.string(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+/** Splits a list typed one item per line or separated by commas. */
+function splitList(value: string): string[] {
+  return value.split(/[\n,]+/).map((item) => item.trim()).filter(Boolean);
+}
+
+/** Sample captions span several lines each, so they are separated by blank lines. */
+function splitCaptions(value: string): string[] {
+  return value.split(/\n\s*\n/).map((caption) => caption.trim()).filter(Boolean);
+}
+
+interface BrandProfileFormProps {
+  profile?: BrandProfile;
+  accounts: ConnectedAccount[] | null;
+  onSubmit: (fields: BrandProfileFields) => Promise<void>;
+}
+
+export function BrandProfileForm({ profile, accounts, onSubmit }: BrandProfileFormProps) {
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      brandName: profile?.brandName ?? "",
+      voice: profile?.voice ?? "",
+      doWords: profile?.doWords.join(", ") ?? "",
+      dontWords: profile?.dontWords.join(", ") ?? "",
+      emojiPolicy: profile?.emojiPolicy ?? "sparing",
+      defaultCta: profile?.defaultCta ?? "",
+      sampleCaptions: profile?.sampleCaptions.join("\n\n") ?? "",
+      mandatoryHashtags: profile?.mandatoryHashtags.join(" ") ?? "",
+      bannedHashtags: profile?.bannedHashtags.join(" ") ?? "",
+      accountId: profile?.accountId ?? NO_ACCOUNT,
+    },
+  });
+
+  async function handleSubmit(values: FormValues) {
+    await onSubmit({
+      brandName: values.brandName,
+      voice: values.voice,
+      doWords: splitList(values.doWords),
+      dontWords: splitList(values.dontWords),
+      emojiPolicy: values.emojiPolicy,
+      defaultCta: values.defaultCta,
+      sampleCaptions: splitCaptions(values.sampleCaptions),
+      mandatoryHashtags: values.mandatoryHashtags.split(/[\s,]+/).filter(Boolean),
+      bannedHashtags: values.bannedHashtags.split(/[\s,]+/).filter(Boolean),
+      ...(values.accountId !== NO_ACCOUNT ? { accountId: values.accountId } : {}),
+    });
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="brandName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Brand name</FormLabel>
+              <FormControl>
+                <Input placeholder="e.g. Green Step Sneakers" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="voice"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Voice and tone</FormLabel>
+              <FormControl>
+                <Textarea placeholder="e.g. Warm, upbeat and a little cheeky. Short sentences." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="doWords"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Words to use</FormLabel>
+                <FormControl>
+                  <Input placeholder="sustainable, comfy" {...field} />
+                </FormControl>
+                <FormDescription>Separated by commas.</FormDescription>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="dontWords"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Words to avoid</FormLabel>
+                <FormControl>
+                  <Input placeholder="cheap, deal" {...field} />
+                </FormControl>
+                <FormDescription>Separated by commas.</FormDescription>
+              </FormItem>
+            )}
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="emojiPolicy"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Emoji</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {(Object.keys(EMOJI_POLICY_LABELS) as EmojiPolicy[]).map((policy) => (
+                      <SelectItem key={policy} value={policy}>
+                        {EMOJI_POLICY_LABELS[policy]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="defaultCta"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Default call to action</FormLabel>
+                <FormControl>
+                  <Input placeholder="e.g. Shop the drop via the link in bio." {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="sampleCaptions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Sample captions</FormLabel>
+              <FormControl>
+                <Textarea className="min-h-[120px]" {...field} />
+              </FormControl>
+              <FormDescription>Past captions in the brand&apos;s voice, separated by a blank line.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="mandatoryHashtags"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Always include</FormLabel>
+                <FormControl>
+                  <Input placeholder="#greenstep" {...field} />
+                </FormControl>
+                <FormDescription>Added to every ad.</FormDescription>
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="bannedHashtags"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Never use</FormLabel>
+                <FormControl>
+                  <Input placeholder="#fastfashion" {...field} />
+                </FormControl>
+                <FormDescription>Removed from generated hashtags.</FormDescription>
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="accountId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Instagram account</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_ACCOUNT}>Any account</SelectItem>
+                  {accounts?.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>The Ad Generator picks this profile when you publish to the account.</FormDescription>
+            </FormItem>
+          )}
+        />
+        <Button type="submit" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save Profile
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { onAuthStateChanged, User } from "firebase/auth";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useBrandProfiles } from "@/hooks/use-brand-profiles";
+import { useConnectedAccounts } from "@/hooks/use-connected-accounts";
+import { auth } from "@/lib/firebase";
+import { EMOJI_POLICY_LABELS } from "@/lib/brand-profiles";
+import type { BrandProfile, BrandProfileFields } from "@/lib/types";
+import { BrandProfileForm } from "./brand-profile-form";
+import { removeBrandProfile, upsertBrandProfile } from "./actions";
+
+/** Lists, creates, edits and deletes the signed-in user's brand profiles. */
+export function BrandProfilesManager() {
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const profiles = useBrandProfiles();
+  const accounts = useConnectedAccounts();
+  // The profile open in the dialog; "new" while creating one.
+  const [editing, setEditing] = useState<BrandProfile | "new" | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => onAuthStateChanged(auth, setUser), []);
+
+  async function handleSave(fields: BrandProfileFields) {
+    if (!user || !editing) return;
+    const result = await upsertBrandProfile(await user.getIdToken(), fields, editing === "new" ? undefined : editing.id);
+    if ("error" in result) {
+      toast({ title: "Save Failed", description: result.error, variant: "destructive" });
+      return;
+    }
+    toast({ title: "Brand Profile Saved" });
+    setEditing(null);
+  }
+
+  async function handleDelete(profile: BrandProfile) {
+    if (!user) return;
+    setDeletingId(profile.id);
+    const result = await removeBrandProfile(await user.getIdToken(), profile.id);
+    if ("error" in result) {
+      toast({ title: "Delete Failed", description: result.error, variant: "destructive" });
+    }
+    setDeletingId(null);
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Sign In Required</h3>
+        <p className="mt-2 text-sm text-muted-foreground">Log in to manage your brand profiles.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Button onClick={() => setEditing("new")}>
+        <Plus className="mr-2 h-4 w-4" />
+        New Profile
+      </Button>
+
+      {profiles === null ? (
+        <Skeleton className="h-40 w-full max-w-2xl" />
+      ) : profiles.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No brand profiles yet. Create one to have captions and hashtags written in your brand&apos;s voice.
+        </p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2">
+          {profiles.map((profile) => {
+            const account = accounts?.find((a) => a.id === profile.accountId);
+            return (
+              <Card key={profile.id}>
+                <CardHeader className="flex-row items-start justify-between space-y-0">
+                  <div className="space-y-1">
+                    <CardTitle>{profile.brandName}</CardTitle>
+                    <CardDescription className="line-clamp-2">{profile.voice || "No voice description"}</CardDescription>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" aria-label="Edit" onClick={() => setEditing(profile)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label="Delete"
+                      onClick={() => handleDelete(profile)}
+                      disabled={deletingId === profile.id}
+                    >
+                      {deletingId === profile.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Trash2 className="h-4 w-4" />
+                      )}
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="flex flex-wrap gap-2">
+                  <Badge variant="outline">{EMOJI_POLICY_LABELS[profile.emojiPolicy]}</Badge>
+                  {account && <Badge variant="outline">{account.label}</Badge>}
+                  {profile.mandatoryHashtags.map((tag) => (
+                    <Badge key={tag} variant="secondary">
+                      {tag}
+                    </Badge>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Brand Profile" : "Edit Brand Profile"}</DialogTitle>
+          </DialogHeader>
+          {editing && (
+            <BrandProfileForm
+              key={editing === "new" ? "new" : editing.id}
+              profile={editing === "new" ? undefined : editing}
+              accounts={accounts}
+              onSubmit={handleSave}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
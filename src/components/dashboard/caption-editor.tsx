@@ -0,0 +1,47 @@
+"use client";
+
+import { Textarea } from "@/components/ui/textarea";
+import { CAPTION_MAX_LENGTH, formatCaption } from "@/lib/ad-content";
+import { checkCaptionStyle } from "@/lib/caption-style";
+import type { CaptionStyle } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface CaptionEditorProps {
+  caption: string;
+  hashtags: string[];
+  /** The requested style; a caption that misses its length or emoji count gets a note. */
+  style?: CaptionStyle;
+  onChange: (caption: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Edits an ad's caption. The counter includes the hashtags, since Instagram
+ * counts them towards the same limit; pass none when they are posted
+ * elsewhere.
+ */
+export function CaptionEditor({ caption, hashtags, style, onChange, disabled }: CaptionEditorProps) {
+  const length = formatCaption(caption, hashtags).length;
+  const styleProblems = checkCaptionStyle(caption, style);
+  const tooLong = length > CAPTION_MAX_LENGTH;
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        aria-label="Caption"
+        value={caption}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="min-h-[160px] text-base"
+        aria-invalid={tooLong}
+      />
+      <div className="flex justify-between gap-4 text-xs">
+        <p className="text-amber-600">{styleProblems.join(" ")}</p>
+        <p className={cn("shrink-0", tooLong ? "text-destructive" : "text-muted-foreground")}>
+          {length.toLocaleString()} / {CAPTION_MAX_LENGTH.toLocaleString()} characters
+          {hashtags.length > 0 && " with hashtags"}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { EMOJI_POLICY_LABELS } from "@/lib/brand-profiles";
+import {
+  CALL_TO_ACTION_LABELS,
+  CAPTION_LANGUAGES,
+  CAPTION_LENGTH_LABELS,
+  CAPTION_TONE_LABELS,
+} from "@/lib/caption-style";
+import type { CaptionStyle } from "@/lib/types";
+
+/** Select value for leaving an option to the model or the brand profile. */
+const AUTO = "auto";
+
+interface CaptionStyleControlsProps {
+  value: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+  disabled?: boolean;
+}
+
+/** Picks the tone, length, emoji, call to action and language of captions. */
+export function CaptionStyleControls({ value, onChange, disabled }: CaptionStyleControlsProps) {
+  function control<K extends keyof CaptionStyle>(key: K, label: string, options: Record<string, string>) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor={`caption-style-${key}`}>{label}</Label>
+        <Select
+          value={value[key] ?? AUTO}
+          onValueChange={(option) => {
+            const { [key]: _, ...rest } = value;
+            onChange(option === AUTO ? rest : { ...rest, [key]: option });
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger id={`caption-style-${key}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={AUTO}>Automatic</SelectItem>
+            {Object.entries(options).map(([option, optionLabel]) => (
+              <SelectItem key={option} value={option}>
+                {optionLabel}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {control("tone", "Tone", CAPTION_TONE_LABELS)}
+      {control("length", "Length", CAPTION_LENGTH_LABELS)}
+      {control("emoji", "Emoji", EMOJI_POLICY_LABELS)}
+      {control("cta", "Call to action", CALL_TO_ACTION_LABELS)}
+      {control("language", "Language", CAPTION_LANGUAGES)}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { Check, Combine } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { CAPTION_ANGLE_LABELS } from "@/lib/ad-content";
+import type { CaptionVariant } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface CaptionVariantsProps {
+  variants: CaptionVariant[];
+  /** Replaces the caption with the variant. */
+  onUse: (index: number) => void;
+  /** Appends the variant to the caption, to be merged by hand in the editor. */
+  onMerge: (index: number) => void;
+  disabled?: boolean;
+}
+
+/** Shows caption variants side by side to pick one or merge several. */
+export function CaptionVariants({ variants, onUse, onMerge, disabled }: CaptionVariantsProps) {
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {variants.map((variant, index) => (
+        <div
+          key={variant.angle}
+          className={cn("flex flex-col gap-3 rounded-lg border p-4", variant.chosen && "border-primary")}
+        >
+          <div className="flex items-center justify-between gap-2">
+            <Badge variant={variant.chosen ? "default" : "outline"}>{CAPTION_ANGLE_LABELS[variant.angle]}</Badge>
+            {variant.chosen && <span className="text-xs text-muted-foreground">In caption</span>}
+          </div>
+          <p className="max-h-48 flex-grow overflow-y-auto whitespace-pre-wrap text-sm text-muted-foreground">
+            {variant.caption}
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" size="sm" className="flex-1" onClick={() => onUse(index)} disabled={disabled}>
+              <Check className="mr-2 h-4 w-4" />
+              Use
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="flex-1"
+              onClick={() => onMerge(index)}
+              disabled={disabled}
+            >
+              <Combine className="mr-2 h-4 w-4" />
+              Merge
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
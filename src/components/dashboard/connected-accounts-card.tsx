@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Check, Loader2, Trash2 } from "lucide-react";
+import type { User } from "firebase/auth";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import type { ConnectedAccount, TokenHealthStatus } from "@/lib/types";
+import { TokenHealthAlert } from "./token-health-alert";
+import { removeInstagramAccount, renameInstagramAccount } from "./actions";
+
+const tokenStatusLabels: Record<TokenHealthStatus, string> = {
+  valid: "Valid",
+  expiring: "Expiring soon",
+  expired: "Expired",
+  invalid: "Invalid",
+  unknown: "Not verified",
+};
+
+interface AccountRowProps {
+  user: User;
+  account: ConnectedAccount;
+}
+
+function AccountRow({ user, account }: AccountRowProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState(account.label);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRemoving, setIsRemoving] = useState(false);
+  const health = account.tokenHealth;
+
+  async function handleRename() {
+    setIsSaving(true);
+    const result = await renameInstagramAccount(await user.getIdToken(), account.id, label);
+    if ("error" in result) {
+      toast({ title: "Rename Failed", description: result.error, variant: "destructive" });
+    }
+    setIsSaving(false);
+  }
+
+  async function handleRemove() {
+    setIsRemoving(true);
+    const result = await removeInstagramAccount(await user.getIdToken(), account.id);
+    if ("error" in result) {
+      toast({ title: "Remove Failed", description: result.error, variant: "destructive" });
+      setIsRemoving(false);
+    } else {
+      toast({ title: "Account Removed", description: `${account.label} is no longer connected.` });
+    }
+  }
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <div className="flex items-center gap-3">
+        <Avatar className="h-10 w-10">
+          <AvatarImage src={account.profilePictureUrl} alt={account.label} />
+          <AvatarFallback>{account.label.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+        <div className="flex-1 space-y-1">
+          <div className="flex items-center gap-2">
+            <Input
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              className="h-8 max-w-xs"
+              aria-label="Account label"
+            />
+            {label !== account.label && (
+              <Button size="icon" variant="outline" className="h-8 w-8" onClick={handleRename} disabled={isSaving}>
+                {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              </Button>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>{account.username ? `@${account.username}` : account.id}</span>
+            {account.tokenPreview && <span className="font-mono">{account.tokenPreview}</span>}
+            <Badge variant={health.status === "expired" || health.status === "invalid" ? "destructive" : "secondary"}>
+              {tokenStatusLabels[health.status]}
+            </Badge>
+            {health.expiresAt && (
+              <span>
+                {health.status === "expired" ? "expired" : "expires"} {format(parseISO(health.expiresAt), "MMMM d, yyyy")}
+              </span>
+            )}
+          </div>
+        </div>
+        <Button size="icon" variant="ghost" onClick={handleRemove} disabled={isRemoving} aria-label="Remove account">
+          {isRemoving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+        </Button>
+      </div>
+      <TokenHealthAlert health={health} />
+    </div>
+  );
+}
+
+interface ConnectedAccountsCardProps {
+  user: User | null;
+  accounts: ConnectedAccount[] | null;
+}
+
+/**
+ * Lists the user's connected Instagram accounts with their token status, and
+ * lets them rename or disconnect each one.
+ */
+export function ConnectedAccountsCard({ user, accounts }: ConnectedAccountsCardProps) {
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle>Connected Accounts</CardTitle>
+        <CardDescription>
+          The Instagram accounts you can publish to. Labels are only shown to you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!user || !accounts ? (
+          <Loader2 className="mx-auto h-8 w-8 animate-spin text-muted-foreground" />
+        ) : accounts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No accounts connected yet.</p>
+        ) : (
+          accounts.map((account) => <AccountRow key={account.id} user={user} account={account} />)
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { onAuthStateChanged, User } from "firebase/auth";
+import {
+  addDays,
+  addWeeks,
+  format,
+  isBefore,
+  isSameMonth,
+  isToday,
+  parseISO,
+  set,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import type { DayProps } from "react-day-picker";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+import { auth, db } from "@/lib/firebase";
+import { statusBadgeVariant, toAd } from "@/lib/ads";
+import type { Ad, AdStatus } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { rescheduleAd } from "./actions";
+
+type CalendarEntry = {
+  ad: Ad;
+  date: Date;
+};
+
+const dayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+/**
+ * The date an ad is shown on: drafts on the day they were saved, scheduled and
+ * failed posts on their publish slot, published posts on the day they went out.
+ */
+function entryDate(ad: Ad): Date {
+  if ((ad.status === "scheduled" || ad.status === "failed") && ad.scheduledAt) {
+    return parseISO(ad.scheduledAt);
+  }
+  if (ad.status === "published" && ad.publishedAt) {
+    return parseISO(ad.publishedAt);
+  }
+  return parseISO(ad.createdAt);
+}
+
+interface CalendarDayProps {
+  date: Date;
+  entries: CalendarEntry[];
+  muted?: boolean;
+  className?: string;
+  onOpen: (date: Date) => void;
+  onDropAd: (adId: string, date: Date) => void;
+}
+
+function CalendarDay({ date, entries, muted, className, onOpen, onDropAd }: CalendarDayProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={() => onOpen(date)}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onOpen(date);
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragOver(true);
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragOver(false);
+        const adId = e.dataTransfer.getData("text/plain");
+        if (adId) onDropAd(adId, date);
+      }}
+      className={cn(
+        "flex h-full w-full flex-col gap-1 overflow-hidden rounded-md border p-1 text-left text-xs transition-colors hover:bg-accent/40",
+        muted && "opacity-50",
+        isDragOver && "border-primary bg-primary/10",
+        className
+      )}
+    >
+      <span className={cn("font-medium", isToday(date) && "text-primary")}>
+        {format(date, "d")}
+      </span>
+      {entries.map(({ ad, date: entryAt }) => (
+        <Badge
+          key={ad.id}
+          variant={statusBadgeVariant[ad.status]}
+          draggable={ad.status === "scheduled"}
+          onDragStart={(e) => e.dataTransfer.setData("text/plain", ad.id)}
+          onClick={(e) => e.stopPropagation()}
+          title={`${ad.status}: ${ad.caption}`}
+          className={cn(
+            "block w-full truncate font-normal",
+            ad.status === "scheduled" && "cursor-grab"
+          )}
+        >
+          {ad.status === "draft" ? "" : `${format(entryAt, "HH:mm")} `}
+          {ad.caption}
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function ContentCalendar() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [user, setUser] = useState<User | null>(null);
+  const [ads, setAds] = useState<Ad[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<"month" | "week">("month");
+  const [month, setMonth] = useState(() => new Date());
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+
+  useEffect(() => {
+    return onAuthStateChanged(auth, (currentUser) => {
+      setUser(currentUser);
+      if (!currentUser) setIsLoading(false);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const q = query(collection(db, "ads"), where("userId", "==", user.uid));
+    return onSnapshot(
+      q,
+      (snapshot) => {
+        setAds(snapshot.docs.map((adDoc) => toAd(adDoc.id, adDoc.data())));
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error("Error fetching calendar ads:", err);
+        toast({
+          title: "Calendar Unavailable",
+          description: "Failed to load your posts. Please ensure your Firebase setup is correct.",
+          variant: "destructive",
+        });
+        setIsLoading(false);
+      }
+    );
+  }, [user, toast]);
+
+  const entriesByDay = useMemo(() => {
+    const byDay = new Map<string, CalendarEntry[]>();
+    for (const ad of ads) {
+      const date = entryDate(ad);
+      const key = dayKey(date);
+      byDay.set(key, [...(byDay.get(key) ?? []), { ad, date }]);
+    }
+    byDay.forEach((entries) => entries.sort((a, b) => a.date.getTime() - b.date.getTime()));
+    return byDay;
+  }, [ads]);
+
+  function openGenerator(date: Date) {
+    router.push(`/dashboard/instagram?date=${dayKey(date)}`);
+  }
+
+  async function moveAd(adId: string, day: Date) {
+    const ad = ads.find((a) => a.id === adId);
+    if (!ad || ad.status !== "scheduled" || !ad.scheduledAt || !user) return;
+
+    // Keep the time of day and move only the date.
+    const current = parseISO(ad.scheduledAt);
+    const target = set(startOfDay(day), {
+      hours: current.getHours(),
+      minutes: current.getMinutes(),
+    });
+    if (dayKey(target) === dayKey(current)) return;
+    if (isBefore(target, new Date())) {
+      toast({
+        title: "Cannot Reschedule",
+        description: "Posts can only be moved to a time in the future.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const result = await rescheduleAd(ad.id, await user.getIdToken(), target.toISOString());
+    if ("error" in result) {
+      toast({ title: "Reschedule Failed", description: result.error, variant: "destructive" });
+    } else {
+      toast({
+        title: "Post Rescheduled",
+        description: `Moved to ${format(target, "MMMM d, yyyy 'at' HH:mm")}.`,
+      });
+    }
+  }
+
+  if (isLoading) {
+    return <Skeleton className="h-[600px] w-full rounded-xl" />;
+  }
+
+  if (!user) {
+    return (
+      <div className="flex flex-col items-center justify-center rounded-lg border-2 border-dashed border-muted-foreground/30 bg-muted/20 p-12 text-center h-96">
+        <h3 className="text-xl font-semibold">Sign In Required</h3>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Log in to see your drafts, scheduled and published posts.
+        </p>
+      </div>
+    );
+  }
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <Tabs value={view} onValueChange={(value) => setView(value as "month" | "week")}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(statusBadgeVariant) as AdStatus[]).map((status) => (
+            <Badge key={status} variant={statusBadgeVariant[status]} className="capitalize">
+              {status}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {view === "month" ? (
+        <Calendar
+          month={month}
+          onMonthChange={setMonth}
+          className="rounded-lg border p-4"
+          classNames={{
+            months: "w-full",
+            month: "w-full space-y-4",
+            head_row: "flex w-full",
+            head_cell: "flex-1 text-muted-foreground font-normal text-[0.8rem]",
+            row: "flex w-full mt-2 gap-2",
+            cell: "h-28 flex-1 p-0 text-sm",
+          }}
+          components={{
+            Day: ({ date, displayMonth }: DayProps) => (
+              <CalendarDay
+                date={date}
+                entries={entriesByDay.get(dayKey(date)) ?? []}
+                muted={!isSameMonth(date, displayMonth)}
+                onOpen={openGenerator}
+                onDropAd={moveAd}
+              />
+            ),
+          }}
+        />
+      ) : (
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="relative flex items-center justify-center">
+            <Button
+              variant="outline"
+              size="icon"
+              className="absolute left-0 h-7 w-7"
+              onClick={() => setWeekStart((w) => addWeeks(w, -1))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium">
+              {format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}
+            </span>
+            <Button
+              variant="outline"
+              size="icon"
+              className="absolute right-0 h-7 w-7"
+              onClick={() => setWeekStart((w) => addWeeks(w, 1))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-7 gap-2">
+            {weekDays.map((day) => (
+              <div key={dayKey(day)} className="space-y-1">
+                <p className="text-center text-[0.8rem] text-muted-foreground">{format(day, "EEE")}</p>
+                <CalendarDay
+                  date={day}
+                  entries={entriesByDay.get(dayKey(day)) ?? []}
+                  className="min-h-[24rem]"
+                  onOpen={openGenerator}
+                  onDropAd={moveAd}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Drag a scheduled post to another day to reschedule it. Click a day to create an ad for that date.
+      </p>
+    </div>
+  );
+}
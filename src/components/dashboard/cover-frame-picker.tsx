@@ -0,0 +1,53 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+
+interface CoverFramePickerProps {
+  videoSrc: string;
+  value: number;
+  onChange: (seconds: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Scrubs through a video to choose the frame used as the reel's cover and as
+ * the poster in Ads History.
+ */
+export function CoverFramePicker({ videoSrc, value, onChange, disabled }: CoverFramePickerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+
+  useEffect(() => {
+    if (videoRef.current && duration > 0) {
+      videoRef.current.currentTime = value;
+    }
+  }, [value, duration]);
+
+  return (
+    <div className="space-y-3">
+      <Label>Cover frame</Label>
+      <video
+        ref={videoRef}
+        src={videoSrc}
+        muted
+        playsInline
+        preload="auto"
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+        className="mx-auto max-h-64 rounded-lg"
+      />
+      <Slider
+        min={0}
+        max={Math.max(duration - 0.1, 0)}
+        step={0.1}
+        value={[value]}
+        onValueChange={([seconds]) => onChange(seconds)}
+        disabled={disabled || duration === 0}
+      />
+      <p className="text-xs text-muted-foreground">
+        Frame at {value.toFixed(1)}s{duration > 0 && ` of ${duration.toFixed(1)}s`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { Facebook, Loader2 } from "lucide-react";
+import type { User } from "firebase/auth";
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import type { InstagramBusinessAccount } from "@/lib/types";
+import { completeInstagramConnection, getPendingInstagramAccounts } from "./actions";
+
+interface FacebookConnectCardProps {
+  user: User | null;
+}
+
+/**
+ * "Connect with Facebook" button and, after a login that found several
+ * Instagram accounts, the picker to choose which of them to connect. The OAuth callback reports
+ * back through the `connected`, `connectError` and `connect` query parameters.
+ */
+export function FacebookConnectCard({ user }: FacebookConnectCardProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const connectionId = searchParams.get("connect");
+  const [accounts, setAccounts] = useState<InstagramBusinessAccount[]>([]);
+  const [selectedAccountIds, setSelectedAccountIds] = useState<string[]>([]);
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  useEffect(() => {
+    const connected = searchParams.get("connected");
+    const connectError = searchParams.get("connectError");
+    if (connected) {
+      toast({ title: "Instagram Connected", description: `Connected @${connected}.` });
+      router.replace(pathname);
+    } else if (connectError) {
+      toast({ title: "Connection Failed", description: connectError, variant: "destructive" });
+      router.replace(pathname);
+    }
+  }, [searchParams, toast, router, pathname]);
+
+  useEffect(() => {
+    if (!connectionId || !user) return;
+    user
+      .getIdToken()
+      .then((idToken) => getPendingInstagramAccounts(connectionId, idToken))
+      .then((result) => {
+        if ("error" in result) {
+          toast({ title: "Connection Failed", description: result.error, variant: "destructive" });
+          router.replace(pathname);
+        } else {
+          setAccounts(result.accounts);
+          setSelectedAccountIds(result.accounts.map((account) => account.id));
+        }
+      });
+  }, [connectionId, user, toast, router, pathname]);
+
+  /** Starts Facebook Login on the server, which needs to know who is connecting. */
+  async function handleStart() {
+    if (!user) return;
+    setIsStarting(true);
+    try {
+      const response = await fetch("/api/auth/facebook/start", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to start Facebook Login.");
+      }
+      window.location.assign(result.url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to start Facebook Login.";
+      toast({ title: "Connection Failed", description: message, variant: "destructive" });
+      setIsStarting(false);
+    }
+  }
+
+  async function handleConnect() {
+    if (!user || !connectionId || selectedAccountIds.length === 0) return;
+    setIsConnecting(true);
+    const result = await completeInstagramConnection(connectionId, await user.getIdToken(), selectedAccountIds);
+    if ("error" in result) {
+      toast({ title: "Connection Failed", description: result.error, variant: "destructive" });
+    } else {
+      toast({
+        title: "Instagram Connected",
+        description: `Connected ${result.accounts.map((account) => `@${account.username || account.id}`).join(", ")}.`,
+      });
+      setAccounts([]);
+      router.replace(pathname);
+    }
+    setIsConnecting(false);
+  }
+
+  return (
+    <Card className="max-w-2xl">
+      <CardHeader>
+        <CardTitle>Connect with Facebook</CardTitle>
+        <CardDescription>
+          Log in with Facebook to pick the Instagram Business accounts linked to your Pages. Your token and account ID are saved for you.
+        </CardDescription>
+      </CardHeader>
+      {accounts.length > 0 && (
+        <CardContent>
+          <div className="space-y-2">
+            {accounts.map((account) => (
+              <div key={account.id} className="flex items-center gap-3 rounded-md border p-3">
+                <Checkbox
+                  id={`account-${account.id}`}
+                  checked={selectedAccountIds.includes(account.id)}
+                  onCheckedChange={(checked) =>
+                    setSelectedAccountIds((ids) =>
+                      checked === true ? [...ids, account.id] : ids.filter((id) => id !== account.id)
+                    )
+                  }
+                />
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={account.profilePictureUrl} alt={account.username} />
+                  <AvatarFallback>{(account.username || account.pageName).charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <Label htmlFor={`account-${account.id}`} className="flex flex-col">
+                  <span>{account.username ? `@${account.username}` : account.id}</span>
+                  <span className="text-xs text-muted-foreground">Page: {account.pageName}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      )}
+      <CardFooter>
+        {accounts.length > 0 ? (
+          <Button onClick={handleConnect} disabled={isConnecting || selectedAccountIds.length === 0}>
+            {isConnecting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Connect Selected Accounts
+          </Button>
+        ) : (
+          <Button onClick={handleStart} disabled={!user || isStarting}>
+            {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Facebook className="mr-2 h-4 w-4" />}
+            Connect with Facebook
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
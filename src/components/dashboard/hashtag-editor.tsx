@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { HASHTAG_LIMIT, normalizeHashtag } from "@/lib/ad-content";
+import { isBannedHashtag } from "@/lib/hashtags";
+import { cn } from "@/lib/utils";
+
+interface HashtagEditorProps {
+  hashtags: string[];
+  onChange: (hashtags: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Adds, removes and reorders an ad's hashtags, up to Instagram's limit.
+ * Several tags can be added at once, separated by spaces or commas. Hashtags
+ * Instagram restricts are left out with a note.
+ */
+export function HashtagEditor({ hashtags, onChange, disabled }: HashtagEditorProps) {
+  const [draft, setDraft] = useState("");
+  const [banned, setBanned] = useState<string[]>([]);
+  const full = hashtags.length >= HASHTAG_LIMIT;
+
+  function addHashtags() {
+    const next = [...hashtags];
+    const skipped: string[] = [];
+    for (const part of draft.split(/[\s,]+/)) {
+      const tag = normalizeHashtag(part);
+      if (tag && isBannedHashtag(tag)) {
+        skipped.push(tag);
+      } else if (tag && next.length < HASHTAG_LIMIT && !next.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+        next.push(tag);
+      }
+    }
+    onChange(next);
+    setBanned(skipped);
+    setDraft("");
+  }
+
+  function move(index: number, offset: number) {
+    const next = [...hashtags];
+    const [tag] = next.splice(index, 1);
+    next.splice(index + offset, 0, tag);
+    onChange(next);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {hashtags.map((tag, index) => (
+          <Badge key={tag} variant="secondary" className="gap-1 pl-1 pr-1">
+            <button
+              type="button"
+              aria-label={`Move ${tag} left`}
+              onClick={() => move(index, -1)}
+              disabled={disabled || index === 0}
+              className="rounded-sm opacity-60 hover:opacity-100 disabled:invisible"
+            >
+              <ChevronLeft className="h-3 w-3" />
+            </button>
+            {tag}
+            <button
+              type="button"
+              aria-label={`Move ${tag} right`}
+              onClick={() => move(index, 1)}
+              disabled={disabled || index === hashtags.length - 1}
+              className="rounded-sm opacity-60 hover:opacity-100 disabled:invisible"
+            >
+              <ChevronRight className="h-3 w-3" />
+            </button>
+            <button
+              type="button"
+              aria-label={`Remove ${tag}`}
+              onClick={() => onChange(hashtags.filter((t) => t !== tag))}
+              disabled={disabled}
+              className="rounded-sm opacity-60 hover:opacity-100"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Input
+          aria-label="Add hashtags"
+          placeholder={full ? "Hashtag limit reached" : "Add hashtags, e.g. #summer sale"}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addHashtags();
+            }
+          }}
+          disabled={disabled || full}
+        />
+        <Button type="button" variant="outline" onClick={addHashtags} disabled={disabled || full || !draft.trim()}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add
+        </Button>
+      </div>
+      <div className="flex justify-between gap-4 text-xs">
+        <p className="text-amber-600">
+          {banned.length > 0 && `Not added, as Instagram restricts them: ${banned.join(" ")}`}
+        </p>
+        <p className={cn("shrink-0", hashtags.length > HASHTAG_LIMIT ? "text-destructive" : "text-muted-foreground")}>
+          {hashtags.length} / {HASHTAG_LIMIT} hashtags
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { DEFAULT_HASHTAG_COUNT, HASHTAG_TIER_LABELS, tierCounts } from "@/lib/hashtags";
+import type { HashtagMix, HashtagTier } from "@/lib/types";
+
+interface HashtagMixControlsProps {
+  value: HashtagMix;
+  onChange: (mix: HashtagMix) => void;
+  disabled?: boolean;
+}
+
+/** Sets the ratio of broad, niche and branded hashtags, and shows the counts it gives. */
+export function HashtagMixControls({ value, onChange, disabled }: HashtagMixControlsProps) {
+  const counts = tierCounts(value, DEFAULT_HASHTAG_COUNT);
+  const tiers = Object.keys(HASHTAG_TIER_LABELS) as HashtagTier[];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-3 gap-4">
+        {tiers.map((tier) => (
+          <div key={tier} className="space-y-2">
+            <Label htmlFor={`hashtag-mix-${tier}`}>{HASHTAG_TIER_LABELS[tier]}</Label>
+            <Input
+              id={`hashtag-mix-${tier}`}
+              type="number"
+              min={0}
+              max={10}
+              value={value[tier]}
+              onChange={(e) => onChange({ ...value, [tier]: Math.max(0, Number(e.target.value) || 0) })}
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {tiers.map((tier) => `${counts[tier]} ${HASHTAG_TIER_LABELS[tier].toLowerCase()}`).join(", ")} out of{" "}
+        {DEFAULT_HASHTAG_COUNT} hashtags
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { HASHTAG_PLACEMENT_OPTIONS } from "@/lib/ad-content";
+import type { HashtagPlacement } from "@/lib/types";
+
+interface HashtagPlacementPickerProps {
+  value: HashtagPlacement;
+  onChange: (placement: HashtagPlacement) => void;
+  disabled?: boolean;
+  /** Prefix of the radio ids, unique per picker on a page. */
+  idPrefix?: string;
+}
+
+/** Picks whether hashtags are posted in the caption, as the first comment, or not at all. */
+export function HashtagPlacementPicker({
+  value,
+  onChange,
+  disabled,
+  idPrefix = "hashtag-placement",
+}: HashtagPlacementPickerProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-semibold">Hashtags</p>
+      <RadioGroup
+        value={value}
+        onValueChange={(placement) => onChange(placement as HashtagPlacement)}
+        className="flex flex-wrap gap-6"
+        disabled={disabled}
+      >
+        {HASHTAG_PLACEMENT_OPTIONS.map((option) => (
+          <div key={option.value} className="flex items-center gap-2">
+            <RadioGroupItem id={`${idPrefix}-${option.value}`} value={option.value} />
+            <Label htmlFor={`${idPrefix}-${option.value}`}>{option.label}</Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
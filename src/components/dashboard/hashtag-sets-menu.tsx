@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import { Bookmark, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { useHashtagSets } from "@/hooks/use-hashtag-sets";
+import { auth } from "@/lib/firebase";
+import { removeHashtagSet, upsertHashtagSet } from "./actions";
+
+interface HashtagSetsMenuProps {
+  /** The ad's hashtags, which can be saved as a new set. */
+  hashtags: string[];
+  /** Called with a set's hashtags to add them to the ad. */
+  onAdd: (hashtags: string[]) => void;
+  disabled?: boolean;
+}
+
+/** Adds saved hashtag sets to an ad, and saves the ad's hashtags as a new set. */
+export function HashtagSetsMenu({ hashtags, onAdd, disabled }: HashtagSetsMenuProps) {
+  const { toast } = useToast();
+  const sets = useHashtagSets();
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  async function saveSet() {
+    const user = auth.currentUser;
+    if (!user) return;
+    setIsSaving(true);
+    const result = await upsertHashtagSet(await user.getIdToken(), name, hashtags);
+    if ("error" in result) {
+      toast({ title: "Save Failed", description: result.error, variant: "destructive" });
+    } else {
+      toast({ title: "Hashtag Set Saved" });
+      setName("");
+    }
+    setIsSaving(false);
+  }
+
+  async function deleteSet(setId: string) {
+    const user = auth.currentUser;
+    if (!user) return;
+    setDeletingId(setId);
+    const result = await removeHashtagSet(await user.getIdToken(), setId);
+    if ("error" in result) {
+      toast({ title: "Delete Failed", description: result.error, variant: "destructive" });
+    }
+    setDeletingId(null);
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <Bookmark className="mr-2 h-4 w-4" />
+          Sets
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <p className="text-sm font-semibold">Hashtag sets</p>
+        {sets === null ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : sets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved sets yet.</p>
+        ) : (
+          <ul className="max-h-60 space-y-2 overflow-y-auto">
+            {sets.map((set) => (
+              <li key={set.id} className="flex items-center gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium">{set.name}</p>
+                  <p className="truncate text-xs text-muted-foreground">{set.hashtags.join(" ")}</p>
+                </div>
+                <Button size="icon" variant="ghost" aria-label={`Add ${set.name}`} onClick={() => onAdd(set.hashtags)}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  aria-label={`Delete ${set.name}`}
+                  onClick={() => deleteSet(set.id)}
+                  disabled={deletingId === set.id}
+                >
+                  {deletingId === set.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <Separator />
+        <form
+          className="space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            saveSet();
+          }}
+        >
+          <Label htmlFor="hashtag-set-name">Save these hashtags as a set</Label>
+          <div className="flex gap-2">
+            <Input
+              id="hashtag-set-name"
+              placeholder="Set name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button
+              type="submit"
+              size="icon"
+              aria-label="Save set"
+              disabled={isSaving || !name.trim() || hashtags.length === 0}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { Languages } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { localeLabel } from "@/lib/locales";
+import type { ConnectedAccount, HashtagPlacement, LocaleVariant } from "@/lib/types";
+import { AccountPicker } from "./account-picker";
+import { CaptionEditor } from "./caption-editor";
+import { HashtagEditor } from "./hashtag-editor";
+
+interface LocaleVariantsEditorProps {
+  variants: LocaleVariant[];
+  accounts: ConnectedAccount[] | null;
+  onChange: (variants: LocaleVariant[]) => void;
+  /** Where the hashtags are posted; the caption counter only includes them in the caption. */
+  hashtagPlacement?: HashtagPlacement;
+  disabled?: boolean;
+}
+
+/**
+ * Edits the localized caption and hashtags of each locale, and which accounts
+ * publish them instead of the main caption when they are selected for
+ * publishing.
+ */
+export function LocaleVariantsEditor({
+  variants,
+  accounts,
+  onChange,
+  hashtagPlacement = "caption",
+  disabled,
+}: LocaleVariantsEditorProps) {
+  function update(index: number, changes: Partial<LocaleVariant>) {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  }
+
+  return (
+    <>
+      {variants.map((variant, index) => (
+        <Card key={variant.locale}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Languages />
+              {localeLabel(variant.locale)}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <CaptionEditor
+              caption={variant.caption}
+              hashtags={hashtagPlacement === "caption" ? variant.hashtags : []}
+              onChange={(caption) => update(index, { caption })}
+              disabled={disabled}
+            />
+            <HashtagEditor
+              hashtags={variant.hashtags}
+              onChange={(hashtags) => update(index, { hashtags })}
+              disabled={disabled}
+            />
+            <AccountPicker
+              accounts={accounts}
+              selectedIds={variant.accountIds}
+              onChange={(accountIds) => update(index, { accountIds })}
+              disabled={disabled}
+              label={`Selected accounts that get the ${localeLabel(variant.locale)} version`}
+              idPrefix={`locale-${variant.locale}-account`}
+            />
+          </CardContent>
+        </Card>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface RegenerateButtonProps {
+  /** What is regenerated, e.g. "caption"; used in the labels. */
+  part: string;
+  /** Called with the user's feedback, or an empty string if they left none. */
+  onRegenerate: (feedback: string) => Promise<void>;
+  isRegenerating: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Regenerates one part of an ad, optionally with feedback such as "shorter"
+ * or "more playful".
+ */
+export function RegenerateButton({ part, onRegenerate, isRegenerating, disabled }: RegenerateButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [feedback, setFeedback] = useState("");
+
+  async function regenerate() {
+    setOpen(false);
+    await onRegenerate(feedback);
+    setFeedback("");
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || isRegenerating}>
+          {isRegenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Regenerate
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end">
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            regenerate();
+          }}
+        >
+          <Label htmlFor={`regenerate-${part}`}>Regenerate {part}</Label>
+          <Input
+            id={`regenerate-${part}`}
+            placeholder="Optional feedback, e.g. shorter"
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+          />
+          <Button type="submit" size="sm" className="w-full">
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Regenerate {part}
+          </Button>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,52 @@
+import Link from "next/link";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import type { TokenHealth } from "@/lib/types";
+
+interface TokenHealthAlertProps {
+  health: TokenHealth | null;
+  /** Names the account in the message when several are shown. */
+  accountLabel?: string;
+  /** Adds a link to the Credentials page; off when already on it. */
+  showCredentialsLink?: boolean;
+}
+
+/**
+ * Warns about an Instagram token that is about to expire or can no longer be
+ * used. Renders nothing for healthy tokens.
+ */
+export function TokenHealthAlert({ health, accountLabel, showCredentialsLink = false }: TokenHealthAlertProps) {
+  if (!health || health.status === "valid" || health.status === "unknown") {
+    return null;
+  }
+
+  const expiry = health.expiresAt ? format(parseISO(health.expiresAt), "MMMM d, yyyy") : null;
+  const isDead = health.status === "expired" || health.status === "invalid";
+  const subject = accountLabel ? `The access token of ${accountLabel}` : "Your access token";
+
+  return (
+    <Alert variant={isDead ? "destructive" : "default"}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {health.status === "expiring" && "Instagram token expires soon"}
+        {health.status === "expired" && "Instagram token expired"}
+        {health.status === "invalid" && "Instagram token is no longer valid"}
+        {accountLabel && ` (${accountLabel})`}
+      </AlertTitle>
+      <AlertDescription>
+        {health.status === "expiring" && `${subject} expires on ${expiry}. It is refreshed automatically; if that keeps failing, save a new token.`}
+        {health.status === "expired" && `${subject} expired on ${expiry}. Publishing will fail until you save a new token.`}
+        {health.status === "invalid" && `The access token could not be refreshed: ${health.error} Publishing will fail until you save a new token.`}
+        {showCredentialsLink && (
+          <>
+            {" "}
+            <Link href="/dashboard/credentials" className="underline">
+              Update credentials
+            </Link>
+          </>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import * as React from "react";
+import { onAuthStateChanged } from "firebase/auth";
+import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { toBrandProfile } from "@/lib/brand-profiles";
+import type { BrandProfile } from "@/lib/types";
+
+/**
+ * Follows the signed-in user's brand profiles, oldest first. Returns null
+ * while loading or when nobody is signed in.
+ */
+export function useBrandProfiles() {
+  const [profiles, setProfiles] = React.useState<BrandProfile[] | null>(null);
+
+  React.useEffect(() => {
+    let unsubscribeProfiles: (() => void) | undefined;
+    const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
+      unsubscribeProfiles?.();
+      unsubscribeProfiles = undefined;
+      if (!currentUser) {
+        setProfiles(null);
+        return;
+      }
+      unsubscribeProfiles = onSnapshot(
+        query(collection(db, "users", currentUser.uid, "brandProfiles"), orderBy("createdAt")),
+        (snapshot) =>
+          setProfiles(snapshot.docs.map((profileDoc) => toBrandProfile(profileDoc.id, profileDoc.data()))),
+        (err) => {
+          console.error("Error fetching brand profiles:", err);
+          setProfiles([]);
+        }
+      );
+    });
+
+    return () => {
+      unsubscribeProfiles?.();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  return profiles;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import * as React from "react";
+import { onAuthStateChanged } from "firebase/auth";
+import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { toConnectedAccount } from "@/lib/accounts";
+import type { ConnectedAccount } from "@/lib/types";
+
+/**
+ * Follows the signed-in user's connected Instagram accounts, oldest first.
+ * Returns null while loading or when nobody is signed in.
+ */
+export function useConnectedAccounts() {
+  const [accounts, setAccounts] = React.useState<ConnectedAccount[] | null>(null);
+
+  React.useEffect(() => {
+    let unsubscribeAccounts: (() => void) | undefined;
+    const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
+      unsubscribeAccounts?.();
+      unsubscribeAccounts = undefined;
+      if (!currentUser) {
+        setAccounts(null);
+        return;
+      }
+      unsubscribeAccounts = onSnapshot(
+        query(collection(db, "users", currentUser.uid, "connectedAccounts"), orderBy("createdAt")),
+        (snapshot) =>
+          setAccounts(snapshot.docs.map((accountDoc) => toConnectedAccount(accountDoc.id, accountDoc.data()))),
+        (err) => {
+          console.error("Error fetching connected accounts:", err);
+          setAccounts([]);
+        }
+      );
+    });
+
+    return () => {
+      unsubscribeAccounts?.();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  return accounts;
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import * as React from "react";
+import { onAuthStateChanged } from "firebase/auth";
+import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { auth, db } from "@/lib/firebase";
+import { toHashtagSet } from "@/lib/hashtags";
+import type { HashtagSet } from "@/lib/types";
+
+/**
+ * Follows the signed-in user's hashtag sets, oldest first. Returns null
+ * while loading or when nobody is signed in.
+ */
+export function useHashtagSets() {
+  const [sets, setSets] = React.useState<HashtagSet[] | null>(null);
+
+  React.useEffect(() => {
+    let unsubscribeSets: (() => void) | undefined;
+    const unsubscribeAuth = onAuthStateChanged(auth, (currentUser) => {
+      unsubscribeSets?.();
+      unsubscribeSets = undefined;
+      if (!currentUser) {
+        setSets(null);
+        return;
+      }
+      unsubscribeSets = onSnapshot(
+        query(collection(db, "users", currentUser.uid, "hashtagSets"), orderBy("createdAt")),
+        (snapshot) =>
+          setSets(snapshot.docs.map((hashtagSetDoc) => toHashtagSet(hashtagSetDoc.id, hashtagSetDoc.data()))),
+        (err) => {
+          console.error("Error fetching hashtag sets:", err);
+          setSets([]);
+        }
+      );
+    });
+
+    return () => {
+      unsubscribeSets?.();
+      unsubscribeAuth();
+    };
+  }, []);
+
+  return sets;
+}
@@ -0,0 +1,18 @@
+import type { DocumentData } from "firebase/firestore";
+import { getTokenHealth } from "@/lib/token-health";
+import type { ConnectedAccount } from "@/lib/types";
+
+/**
+ * Converts a `connectedAccounts` document into a `ConnectedAccount`.
+ */
+export function toConnectedAccount(id: string, data: DocumentData): ConnectedAccount {
+  return {
+    id,
+    label: data.label || data.instagramUsername || id,
+    username: data.instagramUsername || undefined,
+    profilePictureUrl: data.instagramProfilePictureUrl || undefined,
+    tokenPreview: data.instagramTokenPreview || undefined,
+    tokenHealth: getTokenHealth(data),
+    createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { CAPTION_MAX_LENGTH, placeHashtags, validateAdContent } from "@/lib/ad-content";
+
+const hashtags = ["#summer", "#sale"];
+
+describe("placeHashtags", () => {
+  it("appends the hashtags to the caption by default", () => {
+    expect(placeHashtags("Sun is out.", hashtags)).toEqual({ caption: "Sun is out.\n\n#summer #sale" });
+  });
+
+  it("moves the hashtags into the first comment", () => {
+    expect(placeHashtags("Sun is out.", hashtags, "first_comment")).toEqual({
+      caption: "Sun is out.",
+      comment: "#summer #sale",
+    });
+  });
+
+  it("posts no comment when there are no hashtags to put in it", () => {
+    expect(placeHashtags("Sun is out.", [], "first_comment")).toEqual({ caption: "Sun is out." });
+  });
+
+  it("leaves the hashtags out entirely with none", () => {
+    expect(placeHashtags("Sun is out.", hashtags, "none")).toEqual({ caption: "Sun is out." });
+  });
+});
+
+describe("validateAdContent", () => {
+  it("accepts content within Instagram's limits", () => {
+    expect(validateAdContent({ caption: "Sun is out.", hashtags })).toBeNull();
+  });
+
+  it("rejects more than 30 hashtags wherever they go", () => {
+    const many = Array.from({ length: 31 }, (_, i) => `#tag${i}`);
+    for (const placement of ["caption", "first_comment", "none"] as const) {
+      expect(validateAdContent({ caption: "Hi", hashtags: many }, placement)).toMatch(/at most 30 hashtags/);
+    }
+  });
+
+  it("counts the hashtags towards the caption only when they are posted in it", () => {
+    const caption = "x".repeat(CAPTION_MAX_LENGTH - 5);
+    expect(validateAdContent({ caption, hashtags }, "caption")).toBe(
+      "The caption and hashtags are 2210 characters long; Instagram allows 2200."
+    );
+    expect(validateAdContent({ caption, hashtags }, "first_comment")).toBeNull();
+    expect(validateAdContent({ caption, hashtags }, "none")).toBeNull();
+  });
+
+  it("rejects a caption that is too long on its own", () => {
+    const caption = "x".repeat(CAPTION_MAX_LENGTH + 1);
+    expect(validateAdContent({ caption, hashtags: [] }, "first_comment")).toBe(
+      "The caption is 2201 characters long; Instagram allows 2200."
+    );
+  });
+
+  it("rejects a first comment that is too long", () => {
+    const long = Array.from({ length: 30 }, (_, i) => `#${"x".repeat(80)}${i}`);
+    expect(validateAdContent({ caption: "Hi", hashtags: long }, "first_comment")).toMatch(
+      /^The hashtags are \d+ characters long; Instagram allows 2200 in a comment\.$/
+    );
+    expect(validateAdContent({ caption: "Hi", hashtags: long }, "none")).toBeNull();
+  });
+});
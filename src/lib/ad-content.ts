@@ -0,0 +1,80 @@
+import type { CaptionAngle, GeneratedAdContent, HashtagPlacement } from "@/lib/types";
+
+/** Instagram's limit for the text of a post, hashtags included. */
+export const CAPTION_MAX_LENGTH = 2200;
+
+/** Caption angles in the order variants are generated; asking for three gives the first three. */
+export const CAPTION_ANGLES: CaptionAngle[] = ["benefit", "urgency", "storytelling", "question", "social_proof"];
+
+export const CAPTION_ANGLE_LABELS: Record<CaptionAngle, string> = {
+  benefit: "Benefit-led",
+  urgency: "Urgency",
+  storytelling: "Storytelling",
+  question: "Question hook",
+  social_proof: "Social proof",
+};
+
+/** The numbers of caption variants the Ad Generator offers. */
+export const CAPTION_VARIANT_COUNTS = [1, 3, 4, 5];
+
+/** Instagram rejects posts with more hashtags than this. */
+export const HASHTAG_LIMIT = 30;
+
+export const HASHTAG_PLACEMENT_OPTIONS: { value: HashtagPlacement; label: string }[] = [
+  { value: "caption", label: "In the caption" },
+  { value: "first_comment", label: "As the first comment" },
+  { value: "none", label: "Don't post hashtags" },
+];
+
+/** The text posted to Instagram: the caption followed by its hashtags. */
+export function formatCaption(caption: string, hashtags: string[]): string {
+  return hashtags.length > 0 ? `${caption}\n\n${hashtags.join(" ")}` : caption;
+}
+
+/** The caption and first comment posted for the chosen hashtag placement. */
+export function placeHashtags(
+  caption: string,
+  hashtags: string[],
+  placement: HashtagPlacement = "caption"
+): { caption: string; comment?: string } {
+  if (placement === "caption") {
+    return { caption: formatCaption(caption, hashtags) };
+  }
+  if (placement === "first_comment" && hashtags.length > 0) {
+    return { caption, comment: hashtags.join(" ") };
+  }
+  return { caption };
+}
+
+/**
+ * Turns user input such as "summer" or "##Summer!" into a hashtag
+ * ("#summer", "#Summer"). Returns null if nothing usable is left.
+ */
+export function normalizeHashtag(input: string): string | null {
+  const body = input.replace(/[^\p{L}\p{N}_]/gu, "");
+  return body ? `#${body}` : null;
+}
+
+/**
+ * Checks edited content against Instagram's limits, which apply to the
+ * caption and the first comment alike.
+ * @returns A message describing the first problem, or null if the content can be posted.
+ */
+export function validateAdContent(
+  content: Pick<GeneratedAdContent, "caption" | "hashtags">,
+  placement: HashtagPlacement = "caption"
+): string | null {
+  if (content.hashtags.length > HASHTAG_LIMIT) {
+    return `Instagram allows at most ${HASHTAG_LIMIT} hashtags; this ad has ${content.hashtags.length}.`;
+  }
+  const { caption, comment } = placeHashtags(content.caption, content.hashtags, placement);
+  if (caption.length > CAPTION_MAX_LENGTH) {
+    return placement === "caption"
+      ? `The caption and hashtags are ${caption.length} characters long; Instagram allows ${CAPTION_MAX_LENGTH}.`
+      : `The caption is ${caption.length} characters long; Instagram allows ${CAPTION_MAX_LENGTH}.`;
+  }
+  if (comment && comment.length > CAPTION_MAX_LENGTH) {
+    return `The hashtags are ${comment.length} characters long; Instagram allows ${CAPTION_MAX_LENGTH} in a comment.`;
+  }
+  return null;
+}
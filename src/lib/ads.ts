@@ -0,0 +1,55 @@
+import type { DocumentData } from "firebase/firestore";
+import type { Ad, AdStatus, StoredMedia } from "@/lib/types";
+
+/** The badge variant an ad's status is shown with. */
+export const statusBadgeVariant: Record<AdStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "outline",
+  scheduled: "default",
+  published: "secondary",
+  failed: "destructive",
+};
+
+/**
+ * Converts an `ads` document into an `Ad`, turning Firestore Timestamps into
+ * ISO strings.
+ */
+export function toAd(id: string, data: DocumentData): Ad {
+  return {
+    id,
+    prompt: data.prompt,
+    caption: data.caption,
+    hashtags: data.hashtags,
+    imageUrl: data.imageUrl,
+    // Video ads saved before videos were stored only kept a placeholder image.
+    mediaType: data.mediaType ?? data.media?.[0]?.mediaType ?? "image",
+    videoUrl: data.videoUrl,
+    posterUrl: data.posterUrl,
+    media: data.media,
+    generation: data.generation,
+    captionVariants: data.captionVariants,
+    localeVariants: data.localeVariants,
+    createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
+    status: data.status || "draft",
+    scheduledAt: data.scheduledAt?.toDate().toISOString(),
+    publishedAt: data.publishedAt?.toDate().toISOString(),
+    publishJobIds: data.publishJobIds,
+    posts: data.posts,
+  };
+}
+
+/**
+ * Whether a Cloud Storage path is in the user's own folder. Ads are written by
+ * the browser, so their paths are checked before the server touches them.
+ */
+export function isOwnStoragePath(path: string, userId: string): boolean {
+  return path.startsWith(`users/${userId}/`);
+}
+
+/** Every Cloud Storage file that belongs to an ad's media: the files themselves, posters and thumbnails. */
+export function storedMediaPaths(media: StoredMedia[]): string[] {
+  return media.flatMap((stored) => [
+    stored.storagePath,
+    ...(stored.posterPath ? [stored.posterPath] : []),
+    ...(stored.thumbnails ?? []).map((thumbnail) => thumbnail.path),
+  ]);
+}
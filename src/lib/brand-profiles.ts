@@ -0,0 +1,78 @@
+import type { DocumentData } from "firebase/firestore";
+import { HASHTAG_LIMIT, normalizeHashtag } from "@/lib/ad-content";
+import { cleanHashtags } from "@/lib/hashtags";
+import type { BrandProfile, BrandProfileFields, EmojiPolicy } from "@/lib/types";
+
+export const EMOJI_POLICY_LABELS: Record<EmojiPolicy, string> = {
+  none: "No emoji",
+  sparing: "A few emoji",
+  liberal: "Plenty of emoji",
+};
+
+/**
+ * Converts a `brandProfiles` document into a `BrandProfile`.
+ */
+export function toBrandProfile(id: string, data: DocumentData): BrandProfile {
+  return {
+    id,
+    brandName: data.brandName,
+    voice: data.voice ?? "",
+    doWords: data.doWords ?? [],
+    dontWords: data.dontWords ?? [],
+    emojiPolicy: data.emojiPolicy ?? "sparing",
+    defaultCta: data.defaultCta ?? "",
+    sampleCaptions: data.sampleCaptions ?? [],
+    mandatoryHashtags: data.mandatoryHashtags ?? [],
+    bannedHashtags: data.bannedHashtags ?? [],
+    accountId: data.accountId || undefined,
+    createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
+  };
+}
+
+function uniqueList(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((value) => value.trim())
+    .filter((value) => {
+      const key = value.toLowerCase();
+      if (!value || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function hashtagList(values: string[]): string[] {
+  return uniqueList(values.map((value) => normalizeHashtag(value) ?? ""));
+}
+
+/**
+ * Trims a profile's text, drops empty and duplicate list entries and turns
+ * the hashtag lists into proper hashtags.
+ */
+export function cleanBrandProfile(fields: BrandProfileFields): BrandProfileFields {
+  return {
+    brandName: fields.brandName.trim(),
+    voice: fields.voice.trim(),
+    doWords: uniqueList(fields.doWords),
+    dontWords: uniqueList(fields.dontWords),
+    emojiPolicy: fields.emojiPolicy,
+    defaultCta: fields.defaultCta.trim(),
+    sampleCaptions: fields.sampleCaptions.map((caption) => caption.trim()).filter(Boolean),
+    mandatoryHashtags: hashtagList(fields.mandatoryHashtags).slice(0, HASHTAG_LIMIT),
+    bannedHashtags: hashtagList(fields.bannedHashtags),
+    ...(fields.accountId ? { accountId: fields.accountId } : {}),
+  };
+}
+
+/**
+ * Applies a brand's hashtag rules to generated hashtags: banned ones are
+ * removed and mandatory ones come first, within Instagram's limit. Without a
+ * profile the hashtags are only cleaned up, which still drops the hashtags
+ * Instagram restricts.
+ */
+export function applyHashtagRules(
+  hashtags: string[],
+  profile?: Pick<BrandProfileFields, "mandatoryHashtags" | "bannedHashtags">
+): string[] {
+  return cleanHashtags([...(profile?.mandatoryHashtags ?? []), ...hashtags], profile?.bannedHashtags);
+}
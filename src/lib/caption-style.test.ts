@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { checkCaptionStyle } from "@/lib/caption-style";
+
+describe("checkCaptionStyle", () => {
+  it("accepts any caption when no length or emoji policy is set", () => {
+    expect(checkCaptionStyle("x".repeat(3000) + "🎉🎉🎉🎉", { tone: "playful", language: "es" })).toEqual([]);
+    expect(checkCaptionStyle("Hi")).toEqual([]);
+  });
+
+  it("checks the caption length against the chosen range, bounds included", () => {
+    expect(checkCaptionStyle("x".repeat(125), { length: "short" })).toEqual([]);
+    expect(checkCaptionStyle("x".repeat(126), { length: "short" })).toEqual([
+      "The caption is 126 characters long; it must be between 0 and 125.",
+    ]);
+    expect(checkCaptionStyle("x".repeat(124), { length: "medium" })).toEqual([
+      "The caption is 124 characters long; it must be between 125 and 400.",
+    ]);
+  });
+
+  it("counts emoji against the emoji policy", () => {
+    expect(checkCaptionStyle("Sale ☀️", { emoji: "none" })).toEqual(["The caption has 1 emoji; it must have none."]);
+    expect(checkCaptionStyle("☀️🌊🏖️🕶️", { emoji: "sparing" })).toEqual([
+      "The caption has 4 emoji; it must have at most 3.",
+    ]);
+    expect(checkCaptionStyle("Sale 🎉", { emoji: "liberal" })).toEqual([
+      "The caption has 1 emoji; it must have at least 3.",
+    ]);
+    expect(checkCaptionStyle("Sale 🎉🎉🎉", { emoji: "liberal" })).toEqual([]);
+  });
+
+  it("reports every constraint the caption breaks", () => {
+    expect(checkCaptionStyle("Sale 🎉", { length: "long", emoji: "none" })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,87 @@
+import type { CallToActionType, CaptionLength, CaptionStyle, CaptionTone, EmojiPolicy } from "@/lib/types";
+
+export const CAPTION_TONE_LABELS: Record<CaptionTone, string> = {
+  professional: "Professional",
+  playful: "Playful",
+  luxury: "Luxury",
+  friendly: "Friendly",
+  bold: "Bold",
+  inspirational: "Inspirational",
+};
+
+export const CAPTION_LENGTH_LABELS: Record<CaptionLength, string> = {
+  short: "Short",
+  medium: "Medium",
+  long: "Long",
+};
+
+/**
+ * Character ranges for each caption length. Instagram cuts captions off after
+ * about 125 characters in the feed, so short captions fit before "more".
+ */
+export const CAPTION_LENGTH_RANGES: Record<CaptionLength, { min: number; max: number }> = {
+  short: { min: 0, max: 125 },
+  medium: { min: 125, max: 400 },
+  long: { min: 400, max: 1200 },
+};
+
+/** The number of emoji a caption may have under each policy. */
+export const EMOJI_RANGES: Record<EmojiPolicy, { min: number; max: number }> = {
+  none: { min: 0, max: 0 },
+  sparing: { min: 0, max: 3 },
+  liberal: { min: 3, max: Infinity },
+};
+
+export const CALL_TO_ACTION_LABELS: Record<CallToActionType, string> = {
+  shop_now: "Shop now",
+  link_in_bio: "Link in bio",
+  comment: "Comment",
+  dm: "Send a DM",
+};
+
+/** Languages offered for captions, by BCP 47 code. */
+export const CAPTION_LANGUAGES: Record<string, string> = {
+  en: "English",
+  es: "Spanish",
+  fr: "French",
+  de: "German",
+  it: "Italian",
+  "pt-BR": "Portuguese (Brazil)",
+  nl: "Dutch",
+  pl: "Polish",
+  tr: "Turkish",
+  ja: "Japanese",
+  ko: "Korean",
+  "zh-CN": "Chinese (Simplified)",
+  ar: "Arabic",
+  hi: "Hindi",
+};
+
+export function countEmoji(text: string): number {
+  return text.match(/\p{Extended_Pictographic}/gu)?.length ?? 0;
+}
+
+/**
+ * Checks a generated caption against the measurable parts of a style: its
+ * length and number of emoji. Tone, language and the call to action are left
+ * to the prompt.
+ * @returns A description of each constraint the caption breaks.
+ */
+export function checkCaptionStyle(caption: string, style: CaptionStyle = {}): string[] {
+  const problems: string[] = [];
+  if (style.length) {
+    const { min, max } = CAPTION_LENGTH_RANGES[style.length];
+    if (caption.length < min || caption.length > max) {
+      problems.push(`The caption is ${caption.length} characters long; it must be between ${min} and ${max}.`);
+    }
+  }
+  if (style.emoji) {
+    const { min, max } = EMOJI_RANGES[style.emoji];
+    const count = countEmoji(caption);
+    if (count < min || count > max) {
+      const expected = max === 0 ? "none" : max === Infinity ? `at least ${min}` : `at most ${max}`;
+      problems.push(`The caption has ${count} emoji; it must have ${expected}.`);
+    }
+  }
+  return problems;
+}
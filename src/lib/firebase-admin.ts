@@ -0,0 +1,22 @@
+// Server-side Firebase. Uses Application Default Credentials (provided
+// automatically on App Hosting, or via GOOGLE_APPLICATION_CREDENTIALS) and
+// bypasses the Firestore security rules, so only import it from server code.
+// Set FIRESTORE_EMULATOR_HOST and FIREBASE_STORAGE_EMULATOR_HOST to run
+// against the local emulators instead.
+import { getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+import { getStorage } from "firebase-admin/storage";
+
+const app =
+  getApps()[0] ??
+  initializeApp({
+    projectId: process.env.GOOGLE_CLOUD_PROJECT || "instagenius20",
+    storageBucket: process.env.FIREBASE_STORAGE_BUCKET || "instagenius20.appspot.com",
+  });
+
+const adminAuth = getAuth(app);
+const adminDb = getFirestore(app);
+const adminStorage = getStorage(app);
+
+export { adminAuth, adminDb, adminStorage };
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { cleanHashtags, mixHashtags, tierCounts } from "@/lib/hashtags";
+
+/** `count` distinct hashtags like #tag0, #tag1, ... */
+function tags(count: number, prefix = "tag"): string[] {
+  return Array.from({ length: count }, (_, i) => `#${prefix}${i}`);
+}
+
+describe("cleanHashtags", () => {
+  it("drops duplicates that differ only in case or the #", () => {
+    expect(cleanHashtags(["#Summer", "summer", "#SUMMER", "#sale", "Sale!"])).toEqual(["#Summer", "#sale"]);
+  });
+
+  it("removes Instagram's banned hashtags and the ones passed in", () => {
+    expect(cleanHashtags(["#followme", "#Like4Like", "#summer", "#acme"], ["#Acme"])).toEqual(["#summer"]);
+  });
+
+  it("keeps at most 30 hashtags", () => {
+    const cleaned = cleanHashtags(tags(35));
+    expect(cleaned).toHaveLength(30);
+    expect(cleaned[29]).toBe("#tag29");
+  });
+});
+
+describe("tierCounts", () => {
+  it("hands the hashtags lost to rounding to the tiers closest to their next one", () => {
+    // Exact shares: broad 2.1, niche 3.5, branded 1.4.
+    expect(tierCounts({ broad: 3, niche: 5, branded: 2 }, 7)).toEqual({ broad: 2, niche: 4, branded: 1 });
+  });
+
+  it("breaks ties in the order the tiers appear in an ad", () => {
+    expect(tierCounts({ broad: 1, niche: 1, branded: 1 }, 10)).toEqual({ broad: 3, niche: 3, branded: 4 });
+  });
+
+  it("falls back to the default mix when every tier is zero", () => {
+    expect(tierCounts({ broad: 0, niche: 0, branded: 0 }, 10)).toEqual({ broad: 3, niche: 5, branded: 2 });
+  });
+});
+
+describe("mixHashtags", () => {
+  it("lets the other tiers make up for one that runs short", () => {
+    const mixed = mixHashtags(
+      {
+        branded: ["#acme"],
+        niche: ["#trailrunning", "#ultrarunning", "#trailshoes"],
+        broad: ["#running", "#fitness", "#Running"],
+      },
+      { broad: 1, niche: 1, branded: 1 },
+      6
+    );
+    expect(mixed).toEqual(["#acme", "#trailrunning", "#ultrarunning", "#running", "#fitness", "#trailshoes"]);
+  });
+
+  it("keeps a hashtag suggested for two tiers only in the first", () => {
+    const mixed = mixHashtags(
+      { branded: ["#Acme"], niche: ["#acme", "#trailrunning"], broad: ["#running"] },
+      { broad: 1, niche: 1, branded: 1 },
+      3
+    );
+    expect(mixed).toEqual(["#Acme", "#trailrunning", "#running"]);
+  });
+
+  it("leaves out banned hashtags and never returns more than 30", () => {
+    const mixed = mixHashtags(
+      { branded: ["#followme", ...tags(20, "brand")], niche: tags(20, "niche"), broad: tags(20, "broad") },
+      { broad: 1, niche: 1, branded: 1 },
+      40,
+      ["#brand0"]
+    );
+    expect(mixed).toHaveLength(30);
+    expect(mixed).not.toContain("#followme");
+    expect(mixed).not.toContain("#brand0");
+  });
+});
@@ -0,0 +1,153 @@
+import type { DocumentData } from "firebase/firestore";
+import { HASHTAG_LIMIT, normalizeHashtag } from "@/lib/ad-content";
+import type { HashtagMix, HashtagSet, HashtagTier } from "@/lib/types";
+
+export const HASHTAG_TIER_LABELS: Record<HashtagTier, string> = {
+  broad: "Broad",
+  niche: "Niche",
+  branded: "Branded",
+};
+
+/** Tiers in the order their hashtags appear in an ad. */
+const TIER_ORDER: HashtagTier[] = ["branded", "niche", "broad"];
+
+export const DEFAULT_HASHTAG_MIX: HashtagMix = { broad: 3, niche: 5, branded: 2 };
+
+/** How many hashtags are generated for an ad, leaving room for mandatory and hand-picked ones. */
+export const DEFAULT_HASHTAG_COUNT = 20;
+
+/**
+ * Hashtags Instagram has banned or hides posts for, and engagement bait that
+ * gets accounts flagged, in lower case without the "#". Instagram does not
+ * publish its list, so this one is kept up to date by hand.
+ */
+export const BANNED_HASHTAGS = new Set([
+  "adulting",
+  "alone",
+  "armparty",
+  "asiangirl",
+  "beautyblogger",
+  "bikinibody",
+  "curvygirls",
+  "date",
+  "dating",
+  "dm",
+  "dm4dm",
+  "elevator",
+  "f4f",
+  "follow4follow",
+  "followback",
+  "followforfollow",
+  "followme",
+  "killingit",
+  "kissing",
+  "l4l",
+  "lean",
+  "like4like",
+  "likeforlike",
+  "likes4likes",
+  "mirrorphoto",
+  "nasty",
+  "petite",
+  "pushups",
+  "saltwater",
+  "single",
+  "singlelife",
+  "skype",
+  "snapchat",
+  "sopretty",
+  "stranger",
+  "sunbathing",
+  "swole",
+  "tag4like",
+  "tagsforlikes",
+  "teens",
+  "undies",
+]);
+
+/**
+ * Normalizes hashtags, drops duplicates regardless of case, removes banned
+ * ones (Instagram's and `banned`) and caps the list at Instagram's limit.
+ */
+export function cleanHashtags(hashtags: string[], banned: string[] = []): string[] {
+  const skip = new Set([...BANNED_HASHTAGS, ...banned.map((tag) => tag.replace(/^#/, "").toLowerCase())]);
+  const seen = new Set<string>();
+  const cleaned: string[] = [];
+  for (const input of hashtags) {
+    const tag = normalizeHashtag(input);
+    const key = tag?.slice(1).toLowerCase();
+    if (!tag || !key || skip.has(key) || seen.has(key)) continue;
+    seen.add(key);
+    cleaned.push(tag);
+  }
+  return cleaned.slice(0, HASHTAG_LIMIT);
+}
+
+/** Whether Instagram bans or restricts the hashtag. */
+export function isBannedHashtag(tag: string): boolean {
+  return BANNED_HASHTAGS.has(tag.replace(/^#/, "").toLowerCase());
+}
+
+/**
+ * Splits `total` hashtags between the tiers in proportion to `mix`, rounding
+ * so the counts add up to `total`.
+ */
+export function tierCounts(mix: HashtagMix, total: number): Record<HashtagTier, number> {
+  const weights = TIER_ORDER.some((tier) => mix[tier] > 0) ? mix : DEFAULT_HASHTAG_MIX;
+  const sum = TIER_ORDER.reduce((acc, tier) => acc + Math.max(0, weights[tier]), 0);
+  const exact = TIER_ORDER.map((tier) => ({ tier, share: (Math.max(0, weights[tier]) / sum) * total }));
+  const counts = Object.fromEntries(exact.map(({ tier, share }) => [tier, Math.floor(share)])) as Record<
+    HashtagTier,
+    number
+  >;
+  let left = total - TIER_ORDER.reduce((acc, tier) => acc + counts[tier], 0);
+  // The tiers closest to their next hashtag get the ones lost to rounding.
+  for (const { tier } of [...exact].sort((a, b) => (b.share % 1) - (a.share % 1))) {
+    if (left <= 0) break;
+    counts[tier]++;
+    left--;
+  }
+  return counts;
+}
+
+/**
+ * Combines hashtags suggested per tier into one list following `mix`. When a
+ * tier runs short after cleaning, the other tiers make up the difference.
+ */
+export function mixHashtags(
+  suggestions: Record<HashtagTier, string[]>,
+  mix: HashtagMix,
+  total: number,
+  banned: string[] = []
+): string[] {
+  const counts = tierCounts(mix, Math.min(total, HASHTAG_LIMIT));
+  const seen = new Set<string>();
+  const tiers = Object.fromEntries(
+    TIER_ORDER.map((tier) => [
+      tier,
+      cleanHashtags(suggestions[tier], banned).filter((tag) => {
+        const key = tag.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      }),
+    ])
+  ) as Record<HashtagTier, string[]>;
+
+  const picked = TIER_ORDER.flatMap((tier) => tiers[tier].slice(0, counts[tier]));
+  const spare = TIER_ORDER.flatMap((tier) => tiers[tier].slice(counts[tier]));
+  const extra = spare.slice(0, Math.max(0, Math.min(total, HASHTAG_LIMIT) - picked.length));
+  return [...picked, ...extra];
+}
+
+/**
+ * Converts a `hashtagSets` document into a `HashtagSet`.
+ */
+export function toHashtagSet(id: string, data: DocumentData): HashtagSet {
+  return {
+    id,
+    name: data.name,
+    hashtags: data.hashtags ?? [],
+    createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
+  };
+}
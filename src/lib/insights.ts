@@ -0,0 +1,44 @@
+import type { DocumentData } from "firebase/firestore";
+import type { InsightMetric, MediaInsights } from "@/lib/types";
+
+export const INSIGHT_METRICS: InsightMetric[] = [
+  "reach",
+  "impressions",
+  "likes",
+  "comments",
+  "saves",
+  "shares",
+  "plays",
+];
+
+/**
+ * Converts a `mediaInsights` document into `MediaInsights`, turning Firestore
+ * Timestamps into ISO strings.
+ */
+export function toMediaInsights(data: DocumentData): MediaInsights {
+  return {
+    postId: data.postId,
+    adId: data.adId,
+    userId: data.userId,
+    mediaProductType: data.mediaProductType,
+    permalink: data.permalink || undefined,
+    metrics: data.metrics || {},
+    fetchedAt: data.fetchedAt?.toDate().toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Adds up the metrics of several posts. Metrics no post reports are left out.
+ */
+export function sumMetrics(insights: MediaInsights[]): Partial<Record<InsightMetric, number>> {
+  const totals: Partial<Record<InsightMetric, number>> = {};
+  for (const { metrics } of insights) {
+    for (const metric of INSIGHT_METRICS) {
+      const value = metrics[metric];
+      if (value !== undefined) {
+        totals[metric] = (totals[metric] ?? 0) + value;
+      }
+    }
+  }
+  return totals;
+}
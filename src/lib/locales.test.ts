@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { accountDeliveries } from "@/lib/locales";
+import type { GeneratedAdContent } from "@/lib/types";
+
+const content: GeneratedAdContent = {
+  caption: "Summer sale",
+  hashtags: ["#summer"],
+  media: [{ dataUri: "data:image/png;base64,AAAA", mediaType: "image" }],
+  localeVariants: [{ locale: "es-ES", caption: "Rebajas de verano", hashtags: ["#verano"], accountIds: ["es", "mx"] }],
+};
+
+describe("accountDeliveries", () => {
+  it("gives selected locale accounts their locale's caption and the rest the main one", () => {
+    const deliveries = accountDeliveries(content, ["main", "es"]);
+    expect(deliveries.map(({ accountId, locale, content }) => [accountId, locale, content.caption])).toEqual([
+      ["main", undefined, "Summer sale"],
+      ["es", "es-ES", "Rebajas de verano"],
+    ]);
+  });
+
+  it("leaves out locale accounts that were not selected", () => {
+    expect(accountDeliveries(content, ["main"]).map((delivery) => delivery.accountId)).toEqual(["main"]);
+    expect(accountDeliveries(content, [])).toEqual([]);
+  });
+});
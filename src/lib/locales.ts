@@ -0,0 +1,50 @@
+import type { GeneratedAdContent } from "@/lib/types";
+
+/** Markets ads can be localized for, by BCP 47 code. */
+export const LOCALES: Record<string, string> = {
+  "en-US": "English (US)",
+  "en-GB": "English (UK)",
+  "es-ES": "Spanish (Spain)",
+  "es-MX": "Spanish (Mexico)",
+  "de-DE": "German (Germany)",
+  "de-AT": "German (Austria)",
+  "fr-FR": "French (France)",
+  "it-IT": "Italian (Italy)",
+  "pt-BR": "Portuguese (Brazil)",
+  "pt-PT": "Portuguese (Portugal)",
+  "nl-NL": "Dutch (Netherlands)",
+  "pl-PL": "Polish (Poland)",
+  "ja-JP": "Japanese (Japan)",
+};
+
+export function localeLabel(locale: string): string {
+  return LOCALES[locale] ?? locale;
+}
+
+/** The content published to one account, and the locale it was adapted to. */
+export type AccountDelivery = {
+  accountId: string;
+  locale?: string;
+  content: GeneratedAdContent;
+};
+
+/**
+ * Works out what each of the selected `accountIds` gets: the accounts assigned
+ * to a locale get that locale's caption and hashtags, and the rest get the
+ * main ones. Accounts assigned to a locale but not selected get nothing.
+ */
+export function accountDeliveries(content: GeneratedAdContent, accountIds: string[]): AccountDelivery[] {
+  // Jobs and posts only need what is published, not the alternatives.
+  const { captionVariants: _, localeVariants = [], ...main } = content;
+  const selected = new Set(accountIds);
+  const localized = localeVariants.flatMap((variant) =>
+    variant.accountIds.filter((accountId) => selected.has(accountId)).map((accountId) => ({
+      accountId,
+      locale: variant.locale,
+      content: { ...main, caption: variant.caption, hashtags: variant.hashtags },
+    }))
+  );
+  const localizedIds = new Set(localized.map((delivery) => delivery.accountId));
+  const mainAccounts = accountIds.filter((accountId) => !localizedIds.has(accountId));
+  return [...mainAccounts.map((accountId) => ({ accountId, content: main })), ...localized];
+}
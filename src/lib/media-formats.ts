@@ -0,0 +1,33 @@
+import type { MediaFit, MediaFormat } from "@/lib/types";
+
+export type MediaFormatPreset = {
+  label: string;
+  /** The ratio as Instagram and the models name it. */
+  aspectRatio: string;
+  /** The exact size Instagram recommends for the format. */
+  width: number;
+  height: number;
+};
+
+export const MEDIA_FORMATS: Record<MediaFormat, MediaFormatPreset> = {
+  square: { label: "Feed square (1:1)", aspectRatio: "1:1", width: 1080, height: 1080 },
+  portrait: { label: "Feed portrait (4:5)", aspectRatio: "4:5", width: 1080, height: 1350 },
+  story: { label: "Story / Reel (9:16)", aspectRatio: "9:16", width: 1080, height: 1920 },
+  landscape: { label: "Landscape (1.91:1)", aspectRatio: "1.91:1", width: 1080, height: 566 },
+};
+
+export const MEDIA_FIT_LABELS: Record<MediaFit, string> = {
+  crop: "Crop to fill",
+  pad: "Pad to fit",
+};
+
+export const DEFAULT_MEDIA_FORMAT: MediaFormat = "square";
+
+/**
+ * The closest aspect ratio the video model can produce for a format. Veo
+ * only makes landscape and portrait video; the rest is cropped or padded.
+ */
+export function videoAspectRatio(format: MediaFormat): "16:9" | "9:16" {
+  const { width, height } = MEDIA_FORMATS[format];
+  return height > width ? "9:16" : "16:9";
+}
@@ -0,0 +1,124 @@
+import { deleteObject, getDownloadURL, ref, uploadString, type FirebaseStorage } from "firebase/storage";
+import type { MediaItem, StoredMedia, VideoThumbnail } from "@/lib/types";
+
+/** Makes a video's poster frame and thumbnails once it is in Cloud Storage. */
+export type CreatePosterFn = (
+  storagePath: string,
+  atSeconds: number
+) => Promise<{ posterPath: string; posterUrl: string; thumbnails: VideoThumbnail[] } | { error: string }>;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+  "video/mp4": "mp4",
+  "video/quicktime": "mov",
+  "video/webm": "webm",
+};
+
+/** Reads the MIME type from a `data:` URI. */
+export function contentTypeOf(dataUri: string): string {
+  return dataUri.match(/^data:([^;,]+)/)?.[1] ?? "application/octet-stream";
+}
+
+/**
+ * The Cloud Storage path of an ad's media file. Everything a user uploads
+ * lives under `users/{uid}/`, which the Storage rules restrict to that user.
+ */
+export function adMediaPath(userId: string, adId: string, index: number, contentType: string) {
+  const extension = EXTENSIONS[contentType] ?? contentType.split("/")[1] ?? "bin";
+  return `users/${userId}/ads/${adId}/${index}.${extension}`;
+}
+
+/**
+ * Measures an image's dimensions, or a video's dimensions and duration, in the
+ * browser. Returns an empty object if the media cannot be decoded.
+ */
+export function measureMedia(
+  item: MediaItem
+): Promise<Pick<StoredMedia, "width" | "height" | "durationSeconds">> {
+  return new Promise((resolve) => {
+    if (item.mediaType === "image") {
+      const image = new Image();
+      image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      image.onerror = () => resolve({});
+      image.src = item.dataUri;
+    } else {
+      const video = document.createElement("video");
+      video.preload = "metadata";
+      video.onloadedmetadata = () =>
+        resolve({
+          width: video.videoWidth,
+          height: video.videoHeight,
+          durationSeconds: Number.isFinite(video.duration) ? video.duration : undefined,
+        });
+      video.onerror = () => resolve({});
+      video.src = item.dataUri;
+    }
+  });
+}
+
+/**
+ * Uploads an ad's media to Cloud Storage, one file per item, and returns
+ * where each one was stored along with its metadata. Videos also get a
+ * poster frame and thumbnails from `createPoster`, taken at their chosen
+ * cover time.
+ */
+export async function uploadAdMedia(
+  storage: FirebaseStorage,
+  userId: string,
+  adId: string,
+  media: MediaItem[],
+  createPoster?: CreatePosterFn
+): Promise<StoredMedia[]> {
+  return Promise.all(
+    media.map(async (item, index) => {
+      const contentType = contentTypeOf(item.dataUri);
+      const storagePath = adMediaPath(userId, adId, index, contentType);
+      const fileRef = ref(storage, storagePath);
+      const [, dimensions] = await Promise.all([
+        uploadString(fileRef, item.dataUri, "data_url", { contentType }),
+        measureMedia(item),
+      ]);
+      // Firestore rejects undefined values, so only keep what was measured.
+      const measured = Object.fromEntries(
+        Object.entries(dimensions).filter(([, value]) => value !== undefined)
+      );
+      const stored: StoredMedia = {
+        storagePath,
+        downloadUrl: await getDownloadURL(fileRef),
+        contentType,
+        mediaType: item.mediaType,
+        ...measured,
+        ...(item.coverTimeSeconds !== undefined ? { coverTimeSeconds: item.coverTimeSeconds } : {}),
+      };
+      if (item.mediaType === "video" && createPoster) {
+        const poster = await createPoster(storagePath, item.coverTimeSeconds ?? 0);
+        if ("error" in poster) {
+          // The ad is still worth saving without a poster; the card falls back to a placeholder.
+          console.error("Failed to create a video poster:", poster.error);
+        } else {
+          Object.assign(stored, poster);
+        }
+      }
+      return stored;
+    })
+  );
+}
+
+/**
+ * Deletes files from Cloud Storage. Files that are already gone are skipped,
+ * and failures are only logged: a leftover file is not worth failing a save.
+ */
+export async function deleteStoredFiles(storage: FirebaseStorage, paths: string[]): Promise<void> {
+  await Promise.all(
+    paths.map((path) =>
+      deleteObject(ref(storage, path)).catch((error) => {
+        if (error?.code !== "storage/object-not-found") {
+          console.error(`Failed to delete ${path}:`, error);
+        }
+      })
+    )
+  );
+}
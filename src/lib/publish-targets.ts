@@ -0,0 +1,12 @@
+import type { PublishTarget } from "@/lib/types";
+
+export const PUBLISH_TARGET_OPTIONS: { value: PublishTarget; label: string }[] = [
+  { value: "FEED", label: "Feed" },
+  { value: "REELS", label: "Reel" },
+  { value: "STORIES", label: "Story" },
+];
+
+/** Reels can only be published from a single video. */
+export function canPublishReel(media: { mediaType: "image" | "video" }[] | undefined): boolean {
+  return media?.length === 1 && media[0].mediaType === "video";
+}
@@ -0,0 +1,36 @@
+import type { DocumentData } from "firebase/firestore";
+import type { TokenHealth } from "@/lib/types";
+
+/** Tokens closer than this to their expiry are reported as expiring. */
+export const TOKEN_EXPIRY_WARNING_DAYS = 7;
+
+/**
+ * Works out the health of the Instagram token stored on a `connectedAccounts`
+ * document. Tokens saved before expiry tracking existed are reported as
+ * unknown.
+ */
+export function getTokenHealth(accountData: DocumentData | undefined, now = new Date()): TokenHealth {
+  if (!accountData?.instagramAccessTokenEncrypted && !accountData?.instagramAccessToken) {
+    return { status: "unknown" };
+  }
+  if (accountData.instagramTokenError) {
+    return { status: "invalid", error: accountData.instagramTokenError };
+  }
+  if (!accountData.instagramTokenCheckedAt) {
+    return { status: "unknown" };
+  }
+
+  const expiresAt: Date | undefined = accountData.instagramTokenExpiresAt?.toDate();
+  if (!expiresAt) {
+    return { status: "valid" };
+  }
+
+  const msLeft = expiresAt.getTime() - now.getTime();
+  const status =
+    msLeft <= 0
+      ? "expired"
+      : msLeft < TOKEN_EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000
+        ? "expiring"
+        : "valid";
+  return { status, expiresAt: expiresAt.toISOString() };
+}
@@ -1,16 +1,258 @@
 
+export type AdStatus = 'draft' | 'scheduled' | 'published' | 'failed';
+
+/** The media choice made in the Ad Generator. */
+export type MediaOption = 'image' | 'video' | 'upload_image' | 'upload_video' | 'upload_carousel';
+
+/** The settings an ad was generated with. */
+/** Instagram post formats generated media is made for. */
+export type MediaFormat = 'square' | 'portrait' | 'story' | 'landscape';
+
+/** How media of another shape is brought to a format: cropped to fill it, or padded to fit inside. */
+export type MediaFit = 'crop' | 'pad';
+
+export type AdGenerationSettings = {
+  mediaOption: MediaOption;
+  format?: MediaFormat; // Absent for ads generated before formats existed, which were square
+  fit?: MediaFit;
+  captionCount?: number; // Number of caption variants asked for; absent means one
+  brandProfileId?: string; // The brand profile the caption and hashtags were written for
+  captionStyle?: CaptionStyle;
+  locales?: string[]; // Markets localized versions were generated for
+  hashtagMix?: HashtagMix;
+};
+
+export type CaptionTone = 'professional' | 'playful' | 'luxury' | 'friendly' | 'bold' | 'inspirational';
+
+export type CaptionLength = 'short' | 'medium' | 'long';
+
+/** The kind of action a caption asks the reader to take. */
+export type CallToActionType = 'shop_now' | 'link_in_bio' | 'comment' | 'dm';
+
+/** Constraints on generated captions. Anything left out is up to the model (or the brand profile). */
+export type CaptionStyle = {
+  tone?: CaptionTone;
+  length?: CaptionLength;
+  emoji?: EmojiPolicy;
+  cta?: CallToActionType;
+  language?: string; // BCP 47 code, e.g. 'en' or 'pt-BR'
+};
+
+/** Options for generating an ad or one of its parts. */
+export type GenerationOptions = {
+  captionCount?: number;
+  captionStyle?: CaptionStyle;
+  locales?: string[];
+  hashtagMix?: HashtagMix;
+  format?: MediaFormat;
+  fit?: MediaFit;
+  idToken?: string; // The user's Firebase ID token, needed to read the brand profile
+  brandProfileId?: string;
+};
+
+/** How freely a brand uses emoji in its captions. */
+export type EmojiPolicy = 'none' | 'sparing' | 'liberal';
+
+/** A brand's voice and hashtag rules, as edited on the Brand Profiles page. */
+export type BrandProfileFields = {
+  brandName: string;
+  voice: string; // Voice and tone, in the marketer's own words
+  doWords: string[];
+  dontWords: string[];
+  emojiPolicy: EmojiPolicy;
+  defaultCta: string;
+  sampleCaptions: string[]; // Past captions that show the voice
+  mandatoryHashtags: string[]; // Added to every ad
+  bannedHashtags: string[]; // Never used
+  accountId?: string; // Connected account the profile is preselected for in the Ad Generator
+};
+
+/** A brand profile stored in `users/{uid}/brandProfiles`. */
+export type BrandProfile = BrandProfileFields & {
+  id: string;
+  createdAt: string; // Stored as an ISO string
+};
+
+/** How popular a hashtag is: broad tags reach many people, niche ones a focused audience. */
+export type HashtagTier = 'broad' | 'niche' | 'branded';
+
+/** The share of each tier in generated hashtags, as relative weights. */
+export type HashtagMix = Record<HashtagTier, number>;
+
+/** A saved group of hashtags the user adds to ads in one go. */
+export type HashtagSet = {
+  id: string;
+  name: string;
+  hashtags: string[];
+  createdAt: string; // Stored as an ISO string
+};
+
+/** The angle a caption variant is written from. */
+export type CaptionAngle = 'benefit' | 'urgency' | 'storytelling' | 'question' | 'social_proof';
+
+/** One of several captions generated for the marketer to choose from. */
+export type CaptionVariant = {
+  angle: CaptionAngle;
+  caption: string;
+  chosen: boolean; // Used as the caption or merged into it; the others were rejected
+};
+
+/** A caption and hashtags adapted to one market, published to that market's accounts. */
+export type LocaleVariant = {
+  locale: string; // BCP 47 code, e.g. 'es-ES'
+  caption: string;
+  hashtags: string[];
+  accountIds: string[]; // Connected accounts that get this version instead of the main one
+};
+
 export interface Ad {
   id: string;
   prompt: string;
   caption: string;
   hashtags: string[];
-  imageUrl: string; // This can be a data URI for image or video
+  imageUrl: string; // Cover image: the first image's download URL or a video's poster; a data URI for ads saved before Cloud Storage
+  mediaType: 'image' | 'video'; // Type of the first media item
+  videoUrl?: string; // Download URL of the video when mediaType is 'video'
+  posterUrl?: string; // Thumbnail shown for a video before it plays
+  media?: StoredMedia[]; // Ordered like the generated media; absent for ads saved before Cloud Storage
+  generation?: AdGenerationSettings; // Absent for ads saved before settings were recorded
+  captionVariants?: CaptionVariant[]; // Only when several captions were generated
+  localeVariants?: LocaleVariant[]; // Only when other markets were generated for
   createdAt: string; // Stored as an ISO string
+  status: AdStatus; // Ads saved before publishing existed are treated as drafts
+  scheduledAt?: string; // Stored as an ISO string
+  publishedAt?: string; // Stored as an ISO string
+  publishJobIds?: string[]; // One job per account the ad is scheduled for
+  posts?: PublishedPost[]; // Successfully published posts across all accounts
 }
 
+export type MediaItem = {
+  dataUri: string;
+  mediaType: 'image' | 'video';
+  coverTimeSeconds?: number; // Videos only: the frame used as the reel cover and poster
+};
+
+/** A resized copy of a video's poster frame. */
+export type VideoThumbnail = {
+  width: number;
+  path: string;
+  url: string;
+};
+
+/** A media file of a saved ad, stored in Cloud Storage. */
+export type StoredMedia = {
+  storagePath: string; // e.g. users/{uid}/ads/{adId}/0.png
+  downloadUrl: string;
+  contentType: string;
+  mediaType: 'image' | 'video';
+  width?: number;
+  height?: number;
+  durationSeconds?: number; // Videos only
+  coverTimeSeconds?: number; // Videos only: the frame used as the reel cover and poster
+  posterPath?: string; // Videos only: a JPEG frame stored next to the video
+  posterUrl?: string;
+  thumbnails?: VideoThumbnail[]; // Videos only: the poster resized, smallest first
+};
+
 export type GeneratedAdContent = {
   caption: string;
   hashtags: string[];
-  imageDataUri?: string;
-  videoDataUri?: string;
+  media: MediaItem[]; // Ordered; more than one item is published as a carousel
+  captionVariants?: CaptionVariant[];
+  localeVariants?: LocaleVariant[];
+};
+
+/** Where a post is published on Instagram. */
+export type PublishTarget = 'FEED' | 'REELS' | 'STORIES';
+
+/** Where a post's hashtags go: after the caption, in the first comment, or nowhere. */
+export type HashtagPlacement = 'caption' | 'first_comment' | 'none';
+
+export type PublishedPost = {
+  accountId: string; // The connected account it was published to
+  locale?: string; // Set when a locale variant was published rather than the main caption
+  target: PublishTarget;
+  frame?: number; // Stories only: the index of the media item shown in this frame
+  postId?: string;
+  error?: string;
+  commentError?: string; // Why the hashtags could not be posted as the first comment; the post itself went out
+};
+
+/**
+ * What a publish job keeps of the content. The media is not copied into the
+ * job, as it would overflow Firestore's 1 MiB document limit; the worker reads
+ * it from the saved ad instead.
+ */
+export type PublishJobContent = Pick<GeneratedAdContent, 'caption' | 'hashtags'>;
+
+export type PublishJobStatus = 'scheduled' | 'processing' | 'published' | 'failed';
+
+export interface PublishJob {
+  id: string;
+  userId: string;
+  adId: string; // The saved ad this job publishes, kept in sync with the job's status
+  accountId: string; // The connected account to publish to
+  locale?: string; // The locale `content` was adapted to, if it is a localized version
+  content: PublishJobContent;
+  targets: PublishTarget[]; // Targets still to publish; shrinks as retries succeed
+  storyFrames?: number[]; // Story frames still to publish, by media index; all of them if absent
+  hashtagPlacement: HashtagPlacement; // Where the hashtags are posted
+  status: PublishJobStatus;
+  scheduledAt: string; // When the user asked for the post to go out, as an ISO string
+  runAt: string; // When the worker should next pick the job up, as an ISO string
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  posts: PublishedPost[];
+  createdAt: string; // Stored as an ISO string
+}
+
+export type InsightMetric =
+  | 'reach'
+  | 'impressions'
+  | 'likes'
+  | 'comments'
+  | 'saves'
+  | 'shares'
+  | 'plays';
+
+export interface MediaInsights {
+  postId: string;
+  adId: string;
+  userId: string;
+  mediaProductType: 'FEED' | 'REELS' | 'STORY' | 'AD';
+  permalink?: string;
+  metrics: Partial<Record<InsightMetric, number>>;
+  fetchedAt: string; // Stored as an ISO string
+}
+
+export type TokenHealthStatus = 'valid' | 'expiring' | 'expired' | 'invalid' | 'unknown';
+
+export type TokenHealth = {
+  status: TokenHealthStatus;
+  expiresAt?: string; // ISO string; absent for tokens that never expire
+  error?: string; // Why the last refresh failed
+};
+
+/** An Instagram Business account linked to one of the user's Facebook Pages. */
+export type InstagramBusinessAccount = {
+  id: string;
+  username?: string;
+  profilePictureUrl?: string;
+  pageId: string;
+  pageName: string;
 };
+
+/**
+ * An Instagram account stored in `users/{uid}/connectedAccounts/{accountId}`.
+ * The document ID is the Instagram Business Account ID.
+ */
+export interface ConnectedAccount {
+  id: string;
+  label: string;
+  username?: string;
+  profilePictureUrl?: string;
+  tokenPreview?: string; // Masked, e.g. "EAAG…x9Zq"; the token itself never leaves the server
+  tokenHealth: TokenHealth;
+  createdAt: string; // Stored as an ISO string
+}
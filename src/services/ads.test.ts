@@ -0,0 +1,67 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Ad, StoredMedia } from '@/lib/types';
+import { deleteAd, loadAdContent } from '@/services/ads';
+
+type Bucket = Parameters<typeof loadAdContent>[0];
+
+function stored(storagePath: string): StoredMedia {
+  return { storagePath, downloadUrl: 'https://example.com/file', contentType: 'image/png', mediaType: 'image' };
+}
+
+function makeAd(media: StoredMedia[]): Ad {
+  return {
+    id: 'ad-1',
+    prompt: 'A summer sale',
+    caption: 'Sun is out',
+    hashtags: ['#summer'],
+    imageUrl: 'https://example.com/file',
+    mediaType: 'image',
+    media,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    status: 'draft',
+  };
+}
+
+/** A bucket whose files download as a few bytes and can be deleted. */
+function fakeBucket() {
+  const download = vi.fn(async () => [Buffer.from('png')]);
+  const remove = vi.fn(async () => {});
+  const file = vi.fn(() => ({ download, delete: remove }));
+  return { bucket: { file } as unknown as Bucket, file, remove };
+}
+
+function fakeDb() {
+  const remove = vi.fn(async () => {});
+  const db = { collection: () => ({ doc: () => ({ delete: remove }) }) } as unknown as Firestore;
+  return { db, remove };
+}
+
+describe('loadAdContent', () => {
+  it("downloads the media in the owner's folder", async () => {
+    const { bucket, file } = fakeBucket();
+    const content = await loadAdContent(bucket, makeAd([stored('users/alice/ads/ad-1/0.png')]), 'alice');
+    expect(file).toHaveBeenCalledWith('users/alice/ads/ad-1/0.png');
+    expect(content.media).toEqual([{ dataUri: 'data:image/png;base64,cG5n', mediaType: 'image' }]);
+  });
+
+  it("refuses to read files in another user's folder", async () => {
+    const { bucket, file } = fakeBucket();
+    const ad = makeAd([stored('users/alice/ads/ad-1/0.png'), stored('users/bob/ads/ad-9/0.png')]);
+    await expect(loadAdContent(bucket, ad, 'alice')).rejects.toThrow('not stored in your folder');
+    expect(file).not.toHaveBeenCalled();
+  });
+});
+
+describe('deleteAd', () => {
+  it("deletes the ad without touching files in another user's folder", async () => {
+    const { bucket, file, remove } = fakeBucket();
+    const { db, remove: removeDoc } = fakeDb();
+    const ad = makeAd([stored('users/alice/ads/ad-1/0.png'), stored('users/bob/ads/ad-9/0.png')]);
+
+    expect(await deleteAd(db, bucket, ad, 'alice')).toBe(true);
+    expect(file.mock.calls).toEqual([['users/alice/ads/ad-1/0.png']]);
+    expect(remove).toHaveBeenCalledTimes(1);
+    expect(removeDoc).toHaveBeenCalledTimes(1);
+  });
+});
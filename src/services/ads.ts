@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Server-side access to saved ads and the media they keep in
+ * Cloud Storage.
+ */
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import type { Storage } from 'firebase-admin/storage';
+import { isOwnStoragePath, storedMediaPaths, toAd } from '@/lib/ads';
+import type { Ad, GeneratedAdContent, MediaItem, PublishedPost } from '@/lib/types';
+import { cancelPublishJob } from '@/services/publish-queue';
+
+type Bucket = ReturnType<Storage['bucket']>;
+
+/**
+ * Reads an ad, or returns null if it does not exist or belongs to someone
+ * else.
+ */
+export async function getOwnedAd(db: Firestore, adId: string, userId: string): Promise<Ad | null> {
+  const adDoc = await db.collection('ads').doc(adId).get();
+  if (!adDoc.exists || adDoc.data()!.userId !== userId) {
+    return null;
+  }
+  return toAd(adDoc.id, adDoc.data()!);
+}
+
+/**
+ * Downloads an ad's media from Cloud Storage as data URIs, the form the
+ * generator and the publish flow work with. Ads saved before Cloud Storage
+ * kept their image inline and are returned as is.
+ * @throws If the ad has no media that can be loaded, or points at files
+ * outside the folder of `userId`, its owner.
+ */
+export async function loadAdContent(bucket: Bucket, ad: Ad, userId: string): Promise<GeneratedAdContent> {
+  let media: MediaItem[];
+  if (ad.media?.length) {
+    if (!ad.media.every(stored => isOwnStoragePath(stored.storagePath, userId))) {
+      throw new Error('The media of this ad is not stored in your folder.');
+    }
+    media = await Promise.all(
+      ad.media.map(async stored => {
+        const [data] = await bucket.file(stored.storagePath).download();
+        return {
+          dataUri: `data:${stored.contentType};base64,${data.toString('base64')}`,
+          mediaType: stored.mediaType,
+          ...(stored.coverTimeSeconds !== undefined ? { coverTimeSeconds: stored.coverTimeSeconds } : {}),
+        };
+      })
+    );
+  } else if (ad.imageUrl.startsWith('data:')) {
+    media = [{ dataUri: ad.imageUrl, mediaType: 'image' }];
+  } else {
+    throw new Error('The media of this ad is no longer available.');
+  }
+  return {
+    caption: ad.caption,
+    hashtags: ad.hashtags,
+    media,
+    ...(ad.captionVariants ? { captionVariants: ad.captionVariants } : {}),
+    ...(ad.localeVariants ? { localeVariants: ad.localeVariants } : {}),
+  };
+}
+
+/**
+ * Adds newly published posts to an ad and marks it as published.
+ */
+export async function recordPublishedPosts(
+  db: Firestore,
+  adId: string,
+  posts: PublishedPost[]
+): Promise<void> {
+  const published = posts.filter(post => post.postId);
+  if (published.length === 0) {
+    return;
+  }
+  await db.collection('ads').doc(adId).update({
+    status: 'published',
+    publishedAt: FieldValue.serverTimestamp(),
+    posts: FieldValue.arrayUnion(...published),
+  });
+}
+
+/**
+ * Deletes an ad together with its media files and any publish jobs that
+ * have not started yet.
+ * @returns False if a scheduled job is already running, in which case
+ * nothing is deleted.
+ */
+export async function deleteAd(db: Firestore, bucket: Bucket, ad: Ad, userId: string): Promise<boolean> {
+  if (ad.status === 'scheduled') {
+    for (const jobId of ad.publishJobIds ?? []) {
+      if (!(await cancelPublishJob(db, jobId, userId))) {
+        return false;
+      }
+    }
+  }
+
+  // Files outside the owner's folder are someone else's and are left alone.
+  const paths = storedMediaPaths(ad.media ?? []).filter(path => isOwnStoragePath(path, userId));
+  await Promise.all(paths.map(path => bucket.file(path).delete({ ignoreNotFound: true })));
+  await db.collection('ads').doc(ad.id).delete();
+  return true;
+}
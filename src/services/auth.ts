@@ -0,0 +1,23 @@
+/**
+ * @fileoverview Identifies the user behind a server action or API route from
+ * the Firebase ID token the browser sends with it. User IDs sent by the client
+ * are never trusted.
+ */
+import { adminAuth } from '@/lib/firebase-admin';
+
+/**
+ * Verifies a Firebase ID token and returns the ID of the user it was issued
+ * to, or null if the token is missing, malformed or expired.
+ */
+export async function verifyUserId(idToken: string | undefined): Promise<string | null> {
+  if (!idToken) {
+    return null;
+  }
+  try {
+    const { uid } = await adminAuth.verifyIdToken(idToken);
+    return uid;
+  } catch (error) {
+    console.error('Failed to verify ID token:', error);
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * @fileoverview Manages a user's brand profiles, stored in the
+ * `users/{uid}/brandProfiles` sub-collection. The browser may read them; all
+ * writes go through the server.
+ */
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { cleanBrandProfile, toBrandProfile } from '@/lib/brand-profiles';
+import type { BrandProfile, BrandProfileFields } from '@/lib/types';
+
+export function brandProfilesCollection(db: Firestore, userId: string) {
+  return db.collection('users').doc(userId).collection('brandProfiles');
+}
+
+export async function getBrandProfile(
+  db: Firestore,
+  userId: string,
+  profileId: string
+): Promise<BrandProfile | null> {
+  const profileDoc = await brandProfilesCollection(db, userId).doc(profileId).get();
+  return profileDoc.exists ? toBrandProfile(profileDoc.id, profileDoc.data()!) : null;
+}
+
+/**
+ * Creates a brand profile, or replaces the one with `profileId`.
+ * @returns The profile's ID.
+ * @throws If the profile has no brand name.
+ */
+export async function saveBrandProfile(
+  db: Firestore,
+  userId: string,
+  fields: BrandProfileFields,
+  profileId?: string
+): Promise<string> {
+  const profile = cleanBrandProfile(fields);
+  if (!profile.brandName) {
+    throw new Error('A brand profile needs a brand name.');
+  }
+  const collection = brandProfilesCollection(db, userId);
+  if (profileId) {
+    const profileRef = collection.doc(profileId);
+    await profileRef.update({ ...profile, accountId: profile.accountId ?? FieldValue.delete() });
+    return profileRef.id;
+  }
+  const profileRef = await collection.add({ ...profile, createdAt: FieldValue.serverTimestamp() });
+  return profileRef.id;
+}
+
+export async function deleteBrandProfile(db: Firestore, userId: string, profileId: string): Promise<void> {
+  await brandProfilesCollection(db, userId).doc(profileId).delete();
+}
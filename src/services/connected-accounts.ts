@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Manages the Instagram accounts a user has connected, stored in
+ * the `users/{uid}/connectedAccounts` sub-collection. Each document is keyed
+ * by the Instagram Business Account ID and holds that account's token.
+ */
+import {
+  FieldValue,
+  type DocumentData,
+  type DocumentReference,
+  type Firestore,
+  type WriteBatch,
+} from 'firebase-admin/firestore';
+import { encryptedTokenFields } from '@/services/instagram-tokens';
+
+export function connectedAccountsCollection(db: Firestore, userId: string) {
+  return db.collection('users').doc(userId).collection('connectedAccounts');
+}
+
+export function connectedAccountRef(db: Firestore, userId: string, accountId: string) {
+  return connectedAccountsCollection(db, userId).doc(accountId);
+}
+
+/**
+ * Moves the single token/account pair that used to live on the `users/{uid}`
+ * document into the `connectedAccounts` sub-collection, and encrypts tokens
+ * that were stored in plaintext. Does nothing if there is nothing to migrate.
+ */
+export async function migrateLegacyCredentials(db: Firestore, userId: string): Promise<void> {
+  const userRef = db.collection('users').doc(userId);
+  const [userDoc, accounts] = await Promise.all([
+    userRef.get(),
+    connectedAccountsCollection(db, userId).get(),
+  ]);
+  const batch = db.batch();
+  let pending = false;
+
+  for (const accountDoc of accounts.docs) {
+    const { instagramAccessToken } = accountDoc.data();
+    if (instagramAccessToken) {
+      batch.update(accountDoc.ref, encryptedTokenFields(instagramAccessToken));
+      pending = true;
+    }
+  }
+
+  const data = userDoc.data();
+  if (data?.instagramAccessToken && data.instagramBusinessAccountId) {
+    migrateUserDocCredentials(batch, userRef, connectedAccountRef(db, userId, data.instagramBusinessAccountId), data);
+    pending = true;
+  }
+
+  if (pending) {
+    await batch.commit();
+  }
+}
+
+function migrateUserDocCredentials(
+  batch: WriteBatch,
+  userRef: DocumentReference,
+  accountRef: DocumentReference,
+  data: DocumentData
+) {
+  batch.set(
+    accountRef,
+    {
+      label: data.instagramUsername || 'Main account',
+      instagramBusinessAccountId: data.instagramBusinessAccountId,
+      ...encryptedTokenFields(data.instagramAccessToken),
+      instagramTokenExpiresAt: data.instagramTokenExpiresAt ?? null,
+      instagramTokenCheckedAt: data.instagramTokenCheckedAt ?? null,
+      instagramUsername: data.instagramUsername ?? null,
+      instagramProfilePictureUrl: data.instagramProfilePictureUrl ?? null,
+      ...(data.instagramTokenError ? { instagramTokenError: data.instagramTokenError } : {}),
+      createdAt: FieldValue.serverTimestamp(),
+    },
+    { merge: true }
+  );
+  batch.update(userRef, {
+    instagramAccessToken: FieldValue.delete(),
+    instagramBusinessAccountId: FieldValue.delete(),
+    instagramTokenExpiresAt: FieldValue.delete(),
+    instagramTokenCheckedAt: FieldValue.delete(),
+    instagramTokenError: FieldValue.delete(),
+    instagramUsername: FieldValue.delete(),
+    instagramProfilePictureUrl: FieldValue.delete(),
+  });
+}
+
+export async function renameConnectedAccount(
+  db: Firestore,
+  userId: string,
+  accountId: string,
+  label: string
+): Promise<void> {
+  await connectedAccountRef(db, userId, accountId).update({ label });
+}
+
+export async function removeConnectedAccount(
+  db: Firestore,
+  userId: string,
+  accountId: string
+): Promise<void> {
+  await connectedAccountRef(db, userId, accountId).delete();
+}
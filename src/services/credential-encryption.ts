@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Envelope encryption for secrets stored in Firestore, such as
+ * Instagram access tokens.
+ *
+ * Each secret is encrypted with its own random data key (AES-256-GCM), and
+ * the data key is in turn encrypted with the master key from the
+ * CREDENTIALS_ENCRYPTION_KEY environment variable. Only the encrypted form and
+ * the wrapped data key are stored, so documents read from Firestore are
+ * useless without the server's key.
+ */
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/** The stored form of an encrypted secret. All fields are base64. */
+export type EncryptedSecret = {
+  v: 1;
+  wrappedKey: string;
+  keyIv: string;
+  keyTag: string;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+};
+
+/**
+ * Reads the master key. It must be 32 bytes, base64 encoded, for example the
+ * output of `openssl rand -base64 32`.
+ */
+export function getMasterKey(): Buffer {
+  const encoded = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!encoded) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be set to store credentials.');
+  }
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error('CREDENTIALS_ENCRYPTION_KEY must be a base64 encoded 32-byte key.');
+  }
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: string, tag: string, ciphertext: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+}
+
+export function encryptSecret(plaintext: string, masterKey: Buffer = getMasterKey()): EncryptedSecret {
+  const dataKey = randomBytes(KEY_BYTES);
+  const secret = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  const wrapped = seal(masterKey, dataKey);
+  return {
+    v: 1,
+    wrappedKey: wrapped.ciphertext.toString('base64'),
+    keyIv: wrapped.iv.toString('base64'),
+    keyTag: wrapped.tag.toString('base64'),
+    iv: secret.iv.toString('base64'),
+    tag: secret.tag.toString('base64'),
+    ciphertext: secret.ciphertext.toString('base64'),
+  };
+}
+
+/**
+ * @throws If the secret was encrypted with a different master key or has
+ * been tampered with.
+ */
+export function decryptSecret(secret: EncryptedSecret, masterKey: Buffer = getMasterKey()): string {
+  const dataKey = open(masterKey, secret.keyIv, secret.keyTag, secret.wrappedKey);
+  return open(dataKey, secret.iv, secret.tag, secret.ciphertext).toString('utf8');
+}
+
+/**
+ * A preview of a secret that is safe to show in the UI, e.g. `EAAG…x9Zq`.
+ */
+export function maskSecret(secret: string): string {
+  if (secret.length <= 8) {
+    return '•'.repeat(secret.length);
+  }
+  return `${secret.slice(0, 4)}…${secret.slice(-4)}`;
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Firestore } from 'firebase-admin/firestore';
+import { consumeOAuthState, createOAuthState } from '@/services/facebook-connections';
+
+type Ref = { path: string };
+
+/** An in-memory Firestore with just what the OAuth state functions use. */
+function memoryDb() {
+  const docs = new Map<string, Record<string, any>>();
+  const ref = (path: string): Ref & { set(data: Record<string, any>): Promise<void> } => ({
+    path,
+    set: async data => {
+      docs.set(path, data);
+    },
+  });
+  const db = {
+    collection: (name: string) => ({ doc: (id: string) => ref(`${name}/${id}`) }),
+    runTransaction: async <T>(fn: (transaction: unknown) => Promise<T>) =>
+      fn({
+        get: async ({ path }: Ref) => ({ data: () => docs.get(path) }),
+        delete: ({ path }: Ref) => {
+          docs.delete(path);
+        },
+      }),
+  } as unknown as Firestore;
+  return { db, docs };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createOAuthState', () => {
+  it('binds a new, unguessable state to the user for ten minutes', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00.000Z') });
+    const { db, docs } = memoryDb();
+
+    const state = await createOAuthState(db, 'alice');
+    const other = await createOAuthState(db, 'alice');
+
+    expect(state).toMatch(/^[0-9a-f-]{36}$/);
+    expect(other).not.toBe(state);
+    const stored = docs.get(`oauthStates/${state}`)!;
+    expect(stored.userId).toBe('alice');
+    expect(stored.validUntil.toDate()).toEqual(new Date('2026-01-01T12:10:00.000Z'));
+  });
+});
+
+describe('consumeOAuthState', () => {
+  it('returns the user who started the login only once', async () => {
+    const { db, docs } = memoryDb();
+    const state = await createOAuthState(db, 'alice');
+
+    expect(await consumeOAuthState(db, state)).toBe('alice');
+    expect(docs.has(`oauthStates/${state}`)).toBe(false);
+    expect(await consumeOAuthState(db, state)).toBeNull();
+  });
+
+  it('rejects and removes a state that timed out', async () => {
+    vi.useFakeTimers({ now: new Date('2026-01-01T12:00:00.000Z') });
+    const { db, docs } = memoryDb();
+    const state = await createOAuthState(db, 'alice');
+
+    vi.setSystemTime(new Date('2026-01-01T12:10:01.000Z'));
+    expect(await consumeOAuthState(db, state)).toBeNull();
+    expect(docs.has(`oauthStates/${state}`)).toBe(false);
+  });
+
+  it('rejects a state it never issued', async () => {
+    const { db } = memoryDb();
+    expect(await consumeOAuthState(db, 'made-up')).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Remembers who started a Facebook Login, and stores its outcome
+ * until the user picks which Instagram Business account to connect.
+ */
+import { randomUUID } from 'crypto';
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { saveLongLivedToken, type LongLivedToken } from '@/services/instagram-tokens';
+import { decryptSecret, encryptSecret } from '@/services/credential-encryption';
+import { connectedAccountRef } from '@/services/connected-accounts';
+import type { InstagramBusinessAccount } from '@/lib/types';
+
+const COLLECTION = 'oauthConnections';
+const STATE_COLLECTION = 'oauthStates';
+
+/** How long the user has to pick an account after logging in. */
+const PENDING_CONNECTION_TTL_MS = 15 * 60 * 1000;
+
+/** How long the user has to finish the Facebook Login dialog. */
+const OAUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Creates the OAuth `state` for a login started by the user. The user it
+ * belongs to stays on the server, so the callback does not have to trust
+ * anything the browser sends back except the state itself.
+ */
+export async function createOAuthState(db: Firestore, userId: string): Promise<string> {
+  const state = randomUUID();
+  await db.collection(STATE_COLLECTION).doc(state).set({
+    userId,
+    createdAt: FieldValue.serverTimestamp(),
+    validUntil: Timestamp.fromMillis(Date.now() + OAUTH_STATE_TTL_MS),
+  });
+  return state;
+}
+
+/**
+ * Returns the user who started the login with this state, or null if it is
+ * unknown or timed out. A state can only be used once.
+ */
+export async function consumeOAuthState(db: Firestore, state: string): Promise<string | null> {
+  const stateRef = db.collection(STATE_COLLECTION).doc(state);
+  return db.runTransaction(async transaction => {
+    const data = (await transaction.get(stateRef)).data();
+    if (!data) {
+      return null;
+    }
+    transaction.delete(stateRef);
+    return data.validUntil.toMillis() < Date.now() ? null : (data.userId as string);
+  });
+}
+
+/**
+ * Adds the account to the user's connected accounts, or updates its token if
+ * it is already connected. A label set by the user is kept.
+ */
+export async function connectInstagramAccount(
+  db: Firestore,
+  userId: string,
+  token: LongLivedToken,
+  account: InstagramBusinessAccount
+): Promise<void> {
+  const accountRef = connectedAccountRef(db, userId, account.id);
+  const existing = await accountRef.get();
+  await saveLongLivedToken(accountRef, token, {
+    instagramBusinessAccountId: account.id,
+    instagramUsername: account.username ?? null,
+    instagramProfilePictureUrl: account.profilePictureUrl ?? null,
+    ...(existing.exists
+      ? {}
+      : { label: account.username || account.pageName, createdAt: FieldValue.serverTimestamp() }),
+  });
+}
+
+/**
+ * Keeps the token and the accounts found for a login that has more than one
+ * Instagram account to choose from.
+ */
+export async function savePendingConnection(
+  db: Firestore,
+  connectionId: string,
+  userId: string,
+  token: LongLivedToken,
+  accounts: InstagramBusinessAccount[]
+): Promise<void> {
+  await db.collection(COLLECTION).doc(connectionId).set({
+    userId,
+    accessToken: encryptSecret(token.accessToken),
+    expiresAt: token.expiresAt ? Timestamp.fromDate(token.expiresAt) : null,
+    accounts,
+    createdAt: FieldValue.serverTimestamp(),
+    validUntil: Timestamp.fromMillis(Date.now() + PENDING_CONNECTION_TTL_MS),
+  });
+}
+
+/**
+ * Returns a pending connection if it belongs to the user and has not timed out.
+ */
+export async function getPendingConnection(db: Firestore, connectionId: string, userId: string) {
+  const connectionDoc = await db.collection(COLLECTION).doc(connectionId).get();
+  const data = connectionDoc.data();
+  if (!data || data.userId !== userId || data.validUntil.toMillis() < Date.now()) {
+    return null;
+  }
+  return {
+    token: {
+      accessToken: decryptSecret(data.accessToken),
+      expiresAt: data.expiresAt?.toDate() as Date | undefined,
+    },
+    accounts: data.accounts as InstagramBusinessAccount[],
+  };
+}
+
+export async function deletePendingConnection(db: Firestore, connectionId: string): Promise<void> {
+  await db.collection(COLLECTION).doc(connectionId).delete();
+}
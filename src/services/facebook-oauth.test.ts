@@ -0,0 +1,81 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+const REDIRECT_URI = 'https://app.example.com/api/auth/facebook/callback';
+
+let server: Server;
+let oauth: typeof import('@/services/facebook-oauth');
+
+/**
+ * A stand-in for the Graph API's token endpoint: "good-code" becomes a
+ * short-lived token, which becomes a long-lived one.
+ */
+function graphStub(): Server {
+  return createServer((request, response) => {
+    const url = new URL(request.url!, 'http://localhost');
+    const params = url.searchParams;
+    const reply = (status: number, body: unknown) => {
+      response.writeHead(status, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(body));
+    };
+    if (url.pathname !== '/v20.0/oauth/access_token' || params.get('client_secret') !== 'app-secret') {
+      return reply(400, { error: { message: 'Invalid OAuth request.' } });
+    }
+    if (params.get('code') === 'good-code' && params.get('redirect_uri') === REDIRECT_URI) {
+      return reply(200, { access_token: 'short-lived', token_type: 'bearer' });
+    }
+    if (params.get('grant_type') === 'fb_exchange_token' && params.get('fb_exchange_token') === 'short-lived') {
+      return reply(200, { access_token: 'long-lived', expires_in: 60 * 24 * 60 * 60 });
+    }
+    reply(400, { error: { message: 'Invalid verification code format.' } });
+  });
+}
+
+beforeAll(async () => {
+  server = graphStub();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  vi.stubEnv('FACEBOOK_GRAPH_URL', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  vi.stubEnv('FACEBOOK_APP_ID', 'app-id');
+  vi.stubEnv('FACEBOOK_APP_SECRET', 'app-secret');
+  // The Graph URL is read when the modules load.
+  vi.resetModules();
+  oauth = await import('@/services/facebook-oauth');
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('buildAuthorizationUrl', () => {
+  it('sends the state and callback URL to the Facebook Login dialog', () => {
+    const url = new URL(oauth.buildAuthorizationUrl('state-1', REDIRECT_URI));
+    expect(url.origin + url.pathname).toBe('https://www.facebook.com/v20.0/dialog/oauth');
+    expect(url.searchParams.get('client_id')).toBe('app-id');
+    expect(url.searchParams.get('state')).toBe('state-1');
+    expect(url.searchParams.get('redirect_uri')).toBe(REDIRECT_URI);
+    expect(url.searchParams.get('scope')).toContain('instagram_content_publish');
+  });
+});
+
+describe('exchangeCodeForToken', () => {
+  it('exchanges the code and swaps the token for a long-lived one', async () => {
+    const before = Date.now();
+    const token = await oauth.exchangeCodeForToken('good-code', REDIRECT_URI);
+    expect(token.accessToken).toBe('long-lived');
+    expect(token.expiresAt!.getTime()).toBeGreaterThanOrEqual(before + 60 * 24 * 60 * 60 * 1000);
+  });
+
+  it("reports the Graph API's error when the code is rejected", async () => {
+    await expect(oauth.exchangeCodeForToken('bad-code', REDIRECT_URI)).rejects.toThrow(
+      'Invalid verification code format.'
+    );
+  });
+
+  it('rejects a code issued for another callback URL', async () => {
+    await expect(oauth.exchangeCodeForToken('good-code', 'https://evil.example.com/callback')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Facebook Login (OAuth) for connecting Instagram Business
+ * accounts without pasting tokens.
+ *
+ * The dialog and Graph API hosts can be overridden with FACEBOOK_DIALOG_URL
+ * and FACEBOOK_GRAPH_URL so the flow can run against a local mock server.
+ */
+import { API_VERSION, BASE_URL } from '@/services/instagram';
+import { exchangeForLongLivedToken, getAppCredentials, type LongLivedToken } from '@/services/instagram-tokens';
+import type { InstagramBusinessAccount } from '@/lib/types';
+
+const DIALOG_URL = process.env.FACEBOOK_DIALOG_URL || 'https://www.facebook.com';
+
+/** Permissions needed to publish, read insights and comment on Instagram. */
+const SCOPES = [
+  'pages_show_list',
+  'pages_read_engagement',
+  'business_management',
+  'instagram_basic',
+  'instagram_content_publish',
+  'instagram_manage_insights',
+  'instagram_manage_comments',
+];
+
+/**
+ * Builds the Facebook Login dialog URL the user is redirected to.
+ * @param state An unguessable value checked again in the callback.
+ * @param redirectUri The callback URL registered for the Meta app.
+ */
+export function buildAuthorizationUrl(state: string, redirectUri: string): string {
+  const { appId } = getAppCredentials();
+  const params = new URLSearchParams({
+    client_id: appId,
+    redirect_uri: redirectUri,
+    state,
+    response_type: 'code',
+    scope: SCOPES.join(','),
+  });
+  return `${DIALOG_URL}/${API_VERSION}/dialog/oauth?${params.toString()}`;
+}
+
+/**
+ * Exchanges the authorization code from the callback for a long-lived user
+ * access token.
+ */
+export async function exchangeCodeForToken(code: string, redirectUri: string): Promise<LongLivedToken> {
+  const fetch = (await import('node-fetch')).default;
+  const { appId, appSecret } = getAppCredentials();
+
+  const params = new URLSearchParams({
+    client_id: appId,
+    client_secret: appSecret,
+    redirect_uri: redirectUri,
+    code,
+  });
+  const response = await fetch(`${BASE_URL}/oauth/access_token?${params.toString()}`);
+  const json = (await response.json()) as any;
+
+  if (!response.ok || !json.access_token) {
+    console.error('Facebook API Error (exchangeCodeForToken):', json.error);
+    throw new Error(json.error?.message || 'Failed to exchange the authorization code.');
+  }
+
+  // Codes yield short-lived tokens; swap it straight away.
+  return exchangeForLongLivedToken(json.access_token);
+}
+
+/**
+ * Lists the user's Facebook Pages that have an Instagram Business account
+ * linked to them.
+ */
+export async function listInstagramAccounts(accessToken: string): Promise<InstagramBusinessAccount[]> {
+  const fetch = (await import('node-fetch')).default;
+
+  const params = new URLSearchParams({
+    fields: 'id,name,instagram_business_account{id,username,profile_picture_url}',
+    access_token: accessToken,
+  });
+  const response = await fetch(`${BASE_URL}/me/accounts?${params.toString()}`);
+  const json = (await response.json()) as any;
+
+  if (!response.ok) {
+    console.error('Facebook API Error (listInstagramAccounts):', json.error);
+    throw new Error(json.error?.message || 'Failed to list Facebook Pages.');
+  }
+
+  return ((json.data as any[]) || [])
+    .filter(page => page.instagram_business_account?.id)
+    // Accounts without a username or picture leave the keys out; the accounts
+    // are stored with the pending connection and Firestore rejects undefined.
+    .map(page => {
+      const { id, username, profile_picture_url } = page.instagram_business_account;
+      return {
+        id,
+        ...(username ? { username } : {}),
+        ...(profile_picture_url ? { profilePictureUrl: profile_picture_url } : {}),
+        pageId: page.id,
+        pageName: page.name,
+      };
+    });
+}
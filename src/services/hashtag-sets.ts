@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Manages a user's saved hashtag sets, stored in the
+ * `users/{uid}/hashtagSets` sub-collection. The browser may read them; all
+ * writes go through the server.
+ */
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { cleanHashtags } from '@/lib/hashtags';
+
+function hashtagSetsCollection(db: Firestore, userId: string) {
+  return db.collection('users').doc(userId).collection('hashtagSets');
+}
+
+/**
+ * Creates a hashtag set, or replaces the one with `setId`. The hashtags are
+ * cleaned up the same way generated ones are.
+ * @returns The set's ID.
+ * @throws If the set has no name or no usable hashtags.
+ */
+export async function saveHashtagSet(
+  db: Firestore,
+  userId: string,
+  name: string,
+  hashtags: string[],
+  setId?: string
+): Promise<string> {
+  const set = { name: name.trim(), hashtags: cleanHashtags(hashtags) };
+  if (!set.name) {
+    throw new Error('A hashtag set needs a name.');
+  }
+  if (set.hashtags.length === 0) {
+    throw new Error('A hashtag set needs at least one hashtag that is not banned.');
+  }
+  const collection = hashtagSetsCollection(db, userId);
+  if (setId) {
+    const setRef = collection.doc(setId);
+    await setRef.update(set);
+    return setRef.id;
+  }
+  const setRef = await collection.add({ ...set, createdAt: FieldValue.serverTimestamp() });
+  return setRef.id;
+}
+
+export async function deleteHashtagSet(db: Firestore, userId: string, setId: string): Promise<void> {
+  await hashtagSetsCollection(db, userId).doc(setId).delete();
+}
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Looks up the Instagram credentials stored for a user's
+ * connected accounts.
+ */
+import { adminDb } from '@/lib/firebase-admin';
+import { getTokenHealth } from '@/lib/token-health';
+import { connectedAccountRef } from '@/services/connected-accounts';
+import { readAccessToken } from '@/services/instagram-tokens';
+
+export type InstagramCredentials = {
+  accountId: string;
+  accessToken: string;
+  businessAccountId: string;
+};
+
+/**
+ * Reads and decrypts the access token and Business Account ID of one of the
+ * user's connected accounts. This is the only read path for tokens used for
+ * publishing; nothing returned to the client includes them.
+ * @throws If the account does not exist, has no token, or the stored token
+ * has expired or been revoked.
+ */
+export async function getInstagramCredentials(
+  userId: string,
+  accountId: string
+): Promise<InstagramCredentials> {
+  const accountDoc = await connectedAccountRef(adminDb, userId, accountId).get();
+
+  if (!accountDoc.exists) {
+    throw new Error(
+      'Instagram credentials are not configured. Please add them on the Credentials page.'
+    );
+  }
+  const accountData = accountDoc.data()!;
+  const accessToken = readAccessToken(accountData);
+  const businessAccountId = accountData.instagramBusinessAccountId;
+
+  if (!accessToken || !businessAccountId) {
+    throw new Error(
+      'Instagram credentials are not configured. Please add them on the Credentials page.'
+    );
+  }
+
+  const health = getTokenHealth(accountData);
+  if (health.status === 'expired' || health.status === 'invalid') {
+    throw new Error(
+      `The access token of ${accountData.label || businessAccountId} is no longer valid. Please update it on the Credentials page.`
+    );
+  }
+
+  return { accountId: accountDoc.id, accessToken, businessAccountId };
+}
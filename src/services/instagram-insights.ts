@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Fetches post-publish insights from the Instagram Graph API and
+ * keeps them up to date in the `mediaInsights` Firestore collection.
+ */
+import { Timestamp, type Firestore } from 'firebase-admin/firestore';
+import { BASE_URL } from '@/services/instagram';
+import { getInstagramCredentials } from '@/services/instagram-credentials';
+import { toAd } from '@/lib/ads';
+import type { InsightMetric, MediaInsights } from '@/lib/types';
+
+const COLLECTION = 'mediaInsights';
+
+/** Posts older than this are no longer refreshed; their numbers have settled. */
+const REFRESH_WINDOW_DAYS = 90;
+
+type MediaProductType = MediaInsights['mediaProductType'];
+
+/**
+ * Graph API metric names per product type, keyed by our metric name.
+ * Stories have no likes or saves and reels report plays instead of impressions.
+ */
+const METRICS_BY_PRODUCT_TYPE: Record<MediaProductType, Partial<Record<InsightMetric, string>>> = {
+  FEED: {
+    reach: 'reach',
+    impressions: 'impressions',
+    likes: 'likes',
+    comments: 'comments',
+    saves: 'saved',
+    shares: 'shares',
+  },
+  REELS: {
+    reach: 'reach',
+    likes: 'likes',
+    comments: 'comments',
+    saves: 'saved',
+    shares: 'shares',
+    plays: 'plays',
+  },
+  STORY: {
+    reach: 'reach',
+    impressions: 'impressions',
+    shares: 'shares',
+  },
+  AD: {
+    reach: 'reach',
+    impressions: 'impressions',
+    likes: 'likes',
+    comments: 'comments',
+    saves: 'saved',
+    shares: 'shares',
+  },
+};
+
+/**
+ * Fetches the insights of a single published post.
+ * @param accessToken The user's Instagram access token.
+ * @param postId The ID returned when the post was published.
+ * @returns The post's product type, permalink and metrics.
+ */
+export async function fetchMediaInsights(accessToken: string, postId: string) {
+  const fetch = (await import('node-fetch')).default;
+
+  const mediaParams = new URLSearchParams({
+    fields: 'media_product_type,permalink',
+    access_token: accessToken,
+  });
+  const mediaResponse = await fetch(`${BASE_URL}/${postId}?${mediaParams.toString()}`);
+  const mediaJson = (await mediaResponse.json()) as any;
+  if (!mediaResponse.ok) {
+    console.error('Instagram API Error (fetch media):', mediaJson.error);
+    throw new Error(mediaJson.error?.message || 'Failed to fetch media details.');
+  }
+
+  const mediaProductType: MediaProductType = mediaJson.media_product_type || 'FEED';
+  const metricNames = METRICS_BY_PRODUCT_TYPE[mediaProductType] ?? METRICS_BY_PRODUCT_TYPE.FEED;
+
+  const insightsParams = new URLSearchParams({
+    metric: Object.values(metricNames).join(','),
+    access_token: accessToken,
+  });
+  const insightsResponse = await fetch(
+    `${BASE_URL}/${postId}/insights?${insightsParams.toString()}`
+  );
+  const insightsJson = (await insightsResponse.json()) as any;
+  if (!insightsResponse.ok) {
+    console.error('Instagram API Error (fetch insights):', insightsJson.error);
+    throw new Error(insightsJson.error?.message || 'Failed to fetch media insights.');
+  }
+
+  const metrics: Partial<Record<InsightMetric, number>> = {};
+  for (const [metric, graphName] of Object.entries(metricNames) as [InsightMetric, string][]) {
+    const entry = (insightsJson.data as any[] | undefined)?.find(d => d.name === graphName);
+    const value = entry?.values?.[0]?.value ?? entry?.total_value?.value;
+    if (typeof value === 'number') {
+      metrics[metric] = value;
+    }
+  }
+
+  return {
+    mediaProductType,
+    permalink: mediaJson.permalink as string | undefined,
+    metrics,
+  };
+}
+
+/**
+ * Refreshes the insights of every post published in the last
+ * `REFRESH_WINDOW_DAYS` days. A post that fails is logged and skipped so one
+ * bad token does not stop the rest of the run.
+ * @returns How many posts were refreshed and how many failed.
+ */
+export async function refreshPublishedAdInsights(db: Firestore, now = new Date()) {
+  const since = new Date(now.getTime() - REFRESH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const snapshot = await db
+    .collection('ads')
+    .where('status', '==', 'published')
+    .where('publishedAt', '>=', Timestamp.fromDate(since))
+    .get();
+
+  let refreshed = 0;
+  let failed = 0;
+  // Tokens are looked up once per connected account for the whole run.
+  const tokens = new Map<string, Promise<string>>();
+
+  for (const adDoc of snapshot.docs) {
+    const ad = toAd(adDoc.id, adDoc.data());
+    const userId: string | undefined = adDoc.data().userId;
+    if (!userId) {
+      continue;
+    }
+
+    for (const { postId, accountId } of ad.posts ?? []) {
+      if (!postId) {
+        continue;
+      }
+      const tokenKey = `${userId}/${accountId}`;
+      if (!tokens.has(tokenKey)) {
+        tokens.set(
+          tokenKey,
+          getInstagramCredentials(userId, accountId).then(credentials => credentials.accessToken)
+        );
+      }
+      try {
+        const accessToken = await tokens.get(tokenKey)!;
+        const insights = await fetchMediaInsights(accessToken, postId);
+        // Keyed by user too, so an ad listing someone else's post cannot overwrite their insights.
+        await db.collection(COLLECTION).doc(`${userId}_${postId}`).set({
+          postId,
+          adId: adDoc.id,
+          userId,
+          ...insights,
+          permalink: insights.permalink ?? null,
+          fetchedAt: Timestamp.fromDate(now),
+        });
+        // Earlier runs keyed the document by post alone; drop the user's copy.
+        const legacyRef = db.collection(COLLECTION).doc(postId);
+        const legacy = await legacyRef.get();
+        if (legacy.exists && legacy.data()!.userId === userId) {
+          await legacyRef.delete();
+        }
+        refreshed++;
+      } catch (error) {
+        console.error(`Failed to refresh insights for post ${postId}:`, error);
+        failed++;
+      }
+    }
+  }
+
+  return { refreshed, failed };
+}
+
@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Exchanges and refreshes Instagram (Facebook Login) access
+ * tokens and records their expiry on the connected account's document.
+ * Tokens are stored encrypted; see `credential-encryption.ts`.
+ */
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type Firestore,
+} from 'firebase-admin/firestore';
+import { BASE_URL } from '@/services/instagram';
+import { decryptSecret, encryptSecret, maskSecret } from '@/services/credential-encryption';
+
+/** Tokens with less time than this left are refreshed by the scheduled job. */
+const REFRESH_BEFORE_DAYS = 14;
+
+export type LongLivedToken = {
+  accessToken: string;
+  expiresAt?: Date; // Absent for tokens that never expire
+};
+
+export function getAppCredentials() {
+  const appId = process.env.FACEBOOK_APP_ID;
+  const appSecret = process.env.FACEBOOK_APP_SECRET;
+  if (!appId || !appSecret) {
+    throw new Error(
+      'FACEBOOK_APP_ID and FACEBOOK_APP_SECRET must be set to exchange access tokens.'
+    );
+  }
+  return { appId, appSecret };
+}
+
+/**
+ * The Firestore fields that store an access token: the encrypted token and a
+ * masked preview for the UI. Also removes a plaintext token left over from
+ * before tokens were encrypted.
+ */
+export function encryptedTokenFields(accessToken: string) {
+  return {
+    instagramAccessTokenEncrypted: encryptSecret(accessToken),
+    instagramTokenPreview: maskSecret(accessToken),
+    instagramAccessToken: FieldValue.delete(),
+  };
+}
+
+/**
+ * Decrypts the access token stored on a connected account's document.
+ * Accounts saved before tokens were encrypted still hold it in plaintext.
+ */
+export function readAccessToken(accountData: DocumentData): string | undefined {
+  if (accountData.instagramAccessTokenEncrypted) {
+    return decryptSecret(accountData.instagramAccessTokenEncrypted);
+  }
+  return accountData.instagramAccessToken || undefined;
+}
+
+/**
+ * Exchanges an access token for a long-lived one (valid for about 60 days).
+ * Exchanging a long-lived token that is still valid returns a fresh one, which
+ * is how tokens are refreshed.
+ * @param accessToken A short- or long-lived user access token.
+ */
+export async function exchangeForLongLivedToken(accessToken: string): Promise<LongLivedToken> {
+  const fetch = (await import('node-fetch')).default;
+  const { appId, appSecret } = getAppCredentials();
+
+  const params = new URLSearchParams({
+    grant_type: 'fb_exchange_token',
+    client_id: appId,
+    client_secret: appSecret,
+    fb_exchange_token: accessToken,
+  });
+  const response = await fetch(`${BASE_URL}/oauth/access_token?${params.toString()}`);
+  const json = (await response.json()) as any;
+
+  if (!response.ok || !json.access_token) {
+    console.error('Instagram API Error (exchangeForLongLivedToken):', json.error);
+    throw new Error(json.error?.message || 'Failed to exchange the access token.');
+  }
+
+  return {
+    accessToken: json.access_token,
+    expiresAt: json.expires_in ? new Date(Date.now() + json.expires_in * 1000) : undefined,
+  };
+}
+
+/**
+ * Exchanges the token and stores the long-lived token and its expiry on the
+ * connected account's document, clearing any earlier refresh error.
+ */
+export async function storeLongLivedToken(
+  accountRef: DocumentReference,
+  accessToken: string,
+  fields: Record<string, unknown> = {}
+): Promise<LongLivedToken> {
+  const token = await exchangeForLongLivedToken(accessToken);
+  await saveLongLivedToken(accountRef, token, fields);
+  return token;
+}
+
+/**
+ * Stores an already long-lived token and its expiry on the connected
+ * account's document, along with any extra `fields`.
+ */
+export async function saveLongLivedToken(
+  accountRef: DocumentReference,
+  token: LongLivedToken,
+  fields: Record<string, unknown> = {}
+): Promise<void> {
+  await accountRef.set(
+    {
+      ...fields,
+      ...encryptedTokenFields(token.accessToken),
+      instagramTokenExpiresAt: token.expiresAt ? Timestamp.fromDate(token.expiresAt) : null,
+      instagramTokenCheckedAt: FieldValue.serverTimestamp(),
+      instagramTokenError: FieldValue.delete(),
+    },
+    { merge: true }
+  );
+}
+
+/**
+ * Refreshes every stored token that expires within `REFRESH_BEFORE_DAYS`,
+ * across all users' connected accounts. A token that can no longer be
+ * refreshed is flagged with `instagramTokenError` so the Credentials page can
+ * ask the user to reconnect.
+ * @returns How many tokens were refreshed and how many failed.
+ */
+export async function refreshExpiringTokens(db: Firestore, now = new Date()) {
+  const threshold = new Date(now.getTime() + REFRESH_BEFORE_DAYS * 24 * 60 * 60 * 1000);
+  const snapshot = await db
+    .collectionGroup('connectedAccounts')
+    .where('instagramTokenExpiresAt', '<=', Timestamp.fromDate(threshold))
+    .get();
+
+  let refreshed = 0;
+  let failed = 0;
+  for (const accountDoc of snapshot.docs) {
+    const accountData = accountDoc.data();
+    if (accountData.instagramTokenError) {
+      continue;
+    }
+    try {
+      const accessToken = readAccessToken(accountData);
+      if (!accessToken) {
+        continue;
+      }
+      await storeLongLivedToken(accountDoc.ref, accessToken);
+      refreshed++;
+    } catch (error) {
+      console.error(`Failed to refresh the Instagram token at ${accountDoc.ref.path}:`, error);
+      await accountDoc.ref.update({
+        instagramTokenError:
+          error instanceof Error ? error.message : 'The access token could not be refreshed.',
+      });
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
@@ -3,37 +3,64 @@
  * @fileoverview Service for interacting with the Instagram Graph API.
  */
 import { fileTypeFromBuffer } from 'file-type';
+import type { MediaItem, PublishTarget } from '@/lib/types';
 
-const API_VERSION = 'v20.0';
-const BASE_URL = `https://graph.facebook.com/${API_VERSION}`;
+export const API_VERSION = 'v20.0';
+// FACEBOOK_GRAPH_URL points the service at a mock Graph API server in tests.
+export const GRAPH_URL = process.env.FACEBOOK_GRAPH_URL || 'https://graph.facebook.com';
+export const BASE_URL = `${GRAPH_URL}/${API_VERSION}`;
+
+/** Instagram accepts between 2 and 10 items in a single carousel post. */
+const MAX_CAROUSEL_ITEMS = 10;
+
+/**
+ * How a container is created. FEED, REELS and STORIES map to publish targets;
+ * CAROUSEL_ITEM is a child of a carousel post.
+ */
+type ContainerKind = PublishTarget | 'CAROUSEL_ITEM';
 
 /**
  * Publishes a post to Instagram.
+ * For the FEED target a single media item is posted as an image or a reel and
+ * two or more items are posted as a carousel in the order they are given.
+ * REELS expects a single video and STORIES a single image or video.
  * @param accessToken The user's Instagram access token.
  * @param businessAccountId The user's Instagram Business Account ID.
- * @param caption The caption for the post.
- * @param mediaDataUri The data URI of the image or video to post.
- * @param mediaType The type of media, 'image' or 'video'.
+ * @param caption The caption for the post. Ignored for stories.
+ * @param media The ordered list of images and videos to post.
+ * @param target Where the media is published: FEED, REELS or STORIES.
  * @returns The ID of the published post.
  */
 export async function publishToInstagram(
   accessToken: string,
   businessAccountId: string,
   caption: string,
-  mediaDataUri: string,
-  mediaType: 'image' | 'video'
+  media: MediaItem[],
+  target: PublishTarget = 'FEED'
 ) {
   try {
-    const containerId = await uploadMedia(
-      accessToken,
-      businessAccountId,
-      caption,
-      mediaDataUri,
-      mediaType
-    );
+    if (media.length === 0) {
+      throw new Error('At least one media item is required.');
+    }
+    if (media.length > MAX_CAROUSEL_ITEMS) {
+      throw new Error(`A carousel can contain at most ${MAX_CAROUSEL_ITEMS} items.`);
+    }
+    if (target !== 'FEED' && media.length > 1) {
+      throw new Error(`${target} accepts a single media item.`);
+    }
+    if (target === 'REELS' && media[0].mediaType !== 'video') {
+      throw new Error('Reels can only be published from a video.');
+    }
 
-    // For images, the container is the final post. For videos, we need to poll and publish.
-    if (mediaType === 'image') {
+    if (media.length > 1) {
+      return await publishCarousel(accessToken, businessAccountId, caption, media);
+    }
+
+    const [item] = media;
+    const containerId = await uploadMedia(accessToken, businessAccountId, caption, item, target);
+
+    // For feed images, the container is the final post. Everything else needs to be polled and published.
+    if (target === 'FEED' && item.mediaType === 'image') {
         console.log(`Successfully published image post with ID: ${containerId}`);
         return containerId;
     }
@@ -54,19 +81,70 @@ export async function publishToInstagram(
   }
 }
 
+/**
+ * Publishes a carousel post: uploads every item as a child container, waits
+ * for all children to finish processing, then creates and publishes the
+ * CAROUSEL parent container.
+ */
+async function publishCarousel(
+  accessToken: string,
+  businessAccountId: string,
+  caption: string,
+  media: MediaItem[]
+): Promise<string> {
+  const fetch = (await import('node-fetch')).default;
+
+  // Children are uploaded one by one so their order matches the slide order.
+  const childIds: string[] = [];
+  for (const item of media) {
+    const childId = await uploadMedia(accessToken, businessAccountId, '', item, 'CAROUSEL_ITEM');
+    childIds.push(childId);
+  }
+
+  await Promise.all(
+    childIds.map((childId) => pollForContainerReady(accessToken, childId))
+  );
+
+  const createContainerParams = new URLSearchParams({
+    media_type: 'CAROUSEL',
+    children: childIds.join(','),
+    caption: caption,
+    access_token: accessToken,
+  });
+  const createContainerResponse = await fetch(`${BASE_URL}/${businessAccountId}/media`, {
+    method: 'POST',
+    body: createContainerParams,
+  });
+  const createContainerJson = (await createContainerResponse.json()) as any;
+  if (!createContainerResponse.ok || !createContainerJson.id) {
+    console.error('Instagram API Error (create carousel container):', createContainerJson.error);
+    throw new Error(createContainerJson.error?.message || 'Failed to create carousel container.');
+  }
+  const containerId = createContainerJson.id;
+  console.log(`Successfully created carousel container with ID: ${containerId}`);
+
+  await pollForContainerReady(accessToken, containerId);
+
+  return publishMediaContainer(accessToken, businessAccountId, containerId);
+}
+
 /**
  * Uploads media to Instagram and returns a container ID.
+ * Carousel items and stories are created without a caption; a carousel's
+ * caption belongs to the parent container and stories have none. Reels use
+ * the item's `coverTimeSeconds` as their cover frame.
  */
 async function uploadMedia(
   accessToken: string,
   businessAccountId: string,
   caption: string,
-  mediaDataUri: string,
-  mediaType: 'image' | 'video'
+  item: MediaItem,
+  kind: ContainerKind = 'FEED'
 ): Promise<string> {
     const fetch = (await import('node-fetch')).default;
+    const { mediaType } = item;
 
-    const base64Data = mediaDataUri.split(',')[1];
+    const base64Data = item.dataUri.split(',')[1];
     if (!base64Data) {
         throw new Error('Invalid data URI provided.');
     }
@@ -76,9 +154,15 @@ async function uploadMedia(
     if (mediaType === 'image') {
         const url = `${BASE_URL}/${businessAccountId}/media`;
         const params = new URLSearchParams({
-            caption: caption,
             access_token: accessToken,
         });
+        if (kind === 'CAROUSEL_ITEM') {
+            params.set('is_carousel_item', 'true');
+        } else if (kind === 'STORIES') {
+            params.set('media_type', 'STORIES');
+        } else {
+            params.set('caption', caption);
+        }
 
         // For images, we can upload directly
         const uploadResponse = await fetch(`${url}?${params.toString()}`, {
@@ -103,10 +187,21 @@ async function uploadMedia(
         const createContainerUrl = `${BASE_URL}/${businessAccountId}/media`;
         const createContainerParams = new URLSearchParams({
             media_type: 'VIDEO',
-            video_type: 'REELS',
-            caption: caption,
             access_token: accessToken,
         });
+        if (kind === 'CAROUSEL_ITEM') {
+            createContainerParams.set('is_carousel_item', 'true');
+        } else if (kind === 'STORIES') {
+            createContainerParams.set('media_type', 'STORIES');
+        } else {
+            createContainerParams.set('video_type', 'REELS');
+            createContainerParams.set('caption', caption);
+            // A reel published from the feed also shows up in the profile grid.
+            createContainerParams.set('share_to_feed', kind === 'FEED' ? 'true' : 'false');
+            if (item.coverTimeSeconds !== undefined) {
+                createContainerParams.set('thumb_offset', Math.round(item.coverTimeSeconds * 1000).toString());
+            }
+        }
 
         const createContainerResponse = await fetch(createContainerUrl, {
             method: 'POST',
@@ -183,6 +278,30 @@ async function pollForContainerReady(
   throw new Error('Media container processing timed out.');
 }
 
+/**
+ * Comments on a published post as the business account, e.g. to post the
+ * hashtags as the first comment.
+ * @param accessToken The user's Instagram access token.
+ * @param mediaId The ID of the published post.
+ * @param message The text of the comment.
+ * @returns The ID of the comment.
+ */
+export async function commentOnMedia(accessToken: string, mediaId: string, message: string): Promise<string> {
+  const fetch = (await import('node-fetch')).default;
+  const form = new URLSearchParams();
+  form.append('access_token', accessToken);
+  form.append('message', message);
+
+  const response = await fetch(`${BASE_URL}/${mediaId}/comments`, { method: 'POST', body: form });
+  const json = (await response.json()) as any;
+
+  if (!response.ok || !json.id) {
+    console.error('Instagram API Error (commentOnMedia):', json.error);
+    throw new Error(json.error?.message || 'Failed to post the comment.');
+  }
+  return json.id;
+}
+
 /**
  * Publishes a media container to the user's Instagram feed.
  */
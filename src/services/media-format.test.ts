@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaItem } from '@/lib/types';
+import { needsReencode } from '@/services/media-format';
+
+const SQUARE = { width: 1080, height: 1080 };
+
+function item(dataUri: string, mediaType: MediaItem['mediaType'] = 'image'): MediaItem {
+  return { dataUri, mediaType };
+}
+
+describe('needsReencode', () => {
+  it('keeps a JPEG that already has the size of the format', () => {
+    expect(needsReencode(item('data:image/jpeg;base64,AAAA'), SQUARE, SQUARE)).toBe(false);
+  });
+
+  it('re-encodes images in other formats even at the right size', () => {
+    expect(needsReencode(item('data:image/png;base64,AAAA'), SQUARE, SQUARE)).toBe(true);
+    expect(needsReencode(item('data:image/webp;base64,AAAA'), SQUARE, SQUARE)).toBe(true);
+  });
+
+  it('keeps a video of the right size whatever its container', () => {
+    expect(needsReencode(item('data:video/quicktime;base64,AAAA', 'video'), SQUARE, SQUARE)).toBe(false);
+  });
+
+  it('resizes images and videos of another size', () => {
+    const portrait = { width: 1080, height: 1350 };
+    expect(needsReencode(item('data:image/jpeg;base64,AAAA'), portrait, SQUARE)).toBe(true);
+    expect(needsReencode(item('data:video/mp4;base64,AAAA', 'video'), portrait, SQUARE)).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Brings generated images and videos to the exact size of an
+ * Instagram format with ffmpeg, by center-cropping or padding them.
+ */
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MEDIA_FORMATS } from '@/lib/media-formats';
+import type { MediaFit, MediaFormat, MediaItem } from '@/lib/types';
+import { probeMedia, runFfmpeg } from '@/services/video-frames';
+
+/** The ffmpeg filter that scales media to `width` x `height` without distorting it. */
+function fitFilter(width: number, height: number, fit: MediaFit): string {
+  return fit === 'crop'
+    ? `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},setsar=1`
+    : `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1`;
+}
+
+/**
+ * Whether a media item of `size` has to go through ffmpeg to become `target`:
+ * anything of another size, and images that are not a JPEG yet.
+ */
+export function needsReencode(
+  item: MediaItem,
+  size: { width: number | null; height: number | null },
+  target: { width: number; height: number }
+): boolean {
+  if (size.width !== target.width || size.height !== target.height) {
+    return true;
+  }
+  return item.mediaType !== 'video' && !item.dataUri.startsWith('data:image/jpeg');
+}
+
+/**
+ * Returns the media item at the exact size of `format`. Images always come
+ * back as JPEG, which is what Instagram accepts, and are re-encoded unless
+ * they already are a JPEG of that size. Videos that do not have that size
+ * yet come back as H.264 MP4; the others are returned as they are.
+ */
+export async function fitMediaToFormat(item: MediaItem, format: MediaFormat, fit: MediaFit): Promise<MediaItem> {
+  const { width, height } = MEDIA_FORMATS[format];
+  const workDir = await mkdtemp(path.join(tmpdir(), 'format-'));
+  try {
+    const inputFile = path.join(workDir, 'input');
+    await writeFile(inputFile, Buffer.from(item.dataUri.split(',')[1] ?? '', 'base64'));
+    const isVideo = item.mediaType === 'video';
+    if (!needsReencode(item, await probeMedia(inputFile), { width, height })) {
+      return item;
+    }
+
+    const outputFile = path.join(workDir, isVideo ? 'output.mp4' : 'output.jpg');
+    await runFfmpeg(
+      isVideo
+        ? [
+            '-i', inputFile,
+            '-vf', fitFilter(width, height, fit),
+            '-c:v', 'libx264',
+            '-pix_fmt', 'yuv420p',
+            '-c:a', 'copy',
+            '-movflags', '+faststart',
+            outputFile,
+          ]
+        : ['-i', inputFile, '-vf', fitFilter(width, height, fit), '-q:v', '2', outputFile]
+    );
+    const output = await readFile(outputFile);
+    return {
+      ...item,
+      dataUri: `data:${isVideo ? 'video/mp4' : 'image/jpeg'};base64,${output.toString('base64')}`,
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
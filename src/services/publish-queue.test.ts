@@ -0,0 +1,228 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PublishedPost, PublishJob } from '@/lib/types';
+import {
+  nextJobState,
+  retryDelayMs,
+  runDuePublishJobs,
+  type Clock,
+  type PublishJobStore,
+} from '@/services/publish-queue';
+
+const START = new Date('2026-01-01T12:00:00.000Z');
+const MINUTE = 60 * 1000;
+
+function makeJob(overrides: Partial<PublishJob> = {}): PublishJob {
+  return {
+    id: 'job-1',
+    userId: 'user-1',
+    adId: 'ad-1',
+    accountId: 'account-1',
+    content: { caption: 'Hello', hashtags: ['#hello'] },
+    targets: ['FEED'],
+    hashtagPlacement: 'caption',
+    status: 'scheduled',
+    scheduledAt: START.toISOString(),
+    runAt: START.toISOString(),
+    attempts: 1,
+    maxAttempts: 3,
+    posts: [],
+    createdAt: START.toISOString(),
+    ...overrides,
+  };
+}
+
+function post(target: PublishedPost['target'], outcome: { postId?: string; error?: string; frame?: number }) {
+  return { accountId: 'account-1', target, ...outcome };
+}
+
+/** A clock that only moves when told to. */
+function fakeClock(start: Date): Clock & { advance(ms: number): void } {
+  let now = start;
+  return {
+    now: () => now,
+    advance: ms => {
+      now = new Date(now.getTime() + ms);
+    },
+  };
+}
+
+/** An in-memory `PublishJobStore` with the same claim rules as the Firestore one. */
+function memoryStore(jobs: PublishJob[]): PublishJobStore & { get(jobId: string): PublishJob } {
+  const byId = new Map(jobs.map(job => [job.id, job]));
+  return {
+    get: jobId => byId.get(jobId)!,
+    async findDue(now, max) {
+      return [...byId.values()]
+        .filter(job => (job.status === 'scheduled' || job.status === 'processing') && new Date(job.runAt) <= now)
+        .slice(0, max);
+    },
+    async claim(jobId, now, leaseUntil) {
+      const job = byId.get(jobId);
+      if (!job || (job.status !== 'scheduled' && job.status !== 'processing') || new Date(job.runAt) > now) {
+        return null;
+      }
+      const claimed = {
+        ...job,
+        status: 'processing' as const,
+        runAt: leaseUntil.toISOString(),
+        attempts: job.attempts + 1,
+      };
+      byId.set(jobId, claimed);
+      return claimed;
+    },
+    async update(jobId, update) {
+      byId.set(jobId, { ...byId.get(jobId)!, ...update });
+    },
+  };
+}
+
+describe('retryDelayMs', () => {
+  it('waits a minute before the first retry and doubles the delay after that', () => {
+    expect(retryDelayMs(1)).toBe(MINUTE);
+    expect(retryDelayMs(2)).toBe(2 * MINUTE);
+    expect(retryDelayMs(3)).toBe(4 * MINUTE);
+  });
+
+  it('never waits less than the base delay', () => {
+    expect(retryDelayMs(0)).toBe(MINUTE);
+  });
+});
+
+describe('nextJobState', () => {
+  it('marks the job as published once every target succeeded', () => {
+    const job = makeJob({ targets: ['FEED', 'REELS'] });
+    const update = nextJobState(
+      job,
+      { posts: [post('FEED', { postId: 'p1' }), post('REELS', { postId: 'p2' })] },
+      START
+    );
+    expect(update).toMatchObject({ status: 'published', targets: [], lastError: '' });
+    expect(update.posts).toHaveLength(2);
+  });
+
+  it('retries only the failed targets after the backoff delay', () => {
+    const job = makeJob({ targets: ['FEED', 'REELS'], attempts: 2 });
+    const update = nextJobState(
+      job,
+      { posts: [post('FEED', { postId: 'p1' }), post('REELS', { error: 'Video still processing' })] },
+      START
+    );
+    expect(update).toMatchObject({
+      status: 'scheduled',
+      targets: ['REELS'],
+      lastError: 'REELS: Video still processing',
+      runAt: new Date(START.getTime() + 2 * MINUTE).toISOString(),
+    });
+  });
+
+  it('retries every target when the attempt failed as a whole', () => {
+    const job = makeJob({ targets: ['FEED', 'STORIES'], storyFrames: [1] });
+    const update = nextJobState(job, { error: 'Network down' }, START);
+    expect(update).toMatchObject({
+      status: 'scheduled',
+      targets: ['FEED', 'STORIES'],
+      storyFrames: [1],
+      lastError: 'Network down',
+    });
+  });
+
+  it('gives up once the last attempt failed', () => {
+    const job = makeJob({ attempts: 3, maxAttempts: 3 });
+    const update = nextJobState(job, { posts: [post('FEED', { error: 'Token expired' })] }, START);
+    expect(update).toMatchObject({ status: 'failed', targets: ['FEED'], lastError: 'FEED: Token expired' });
+    expect(update.runAt).toBeUndefined();
+  });
+
+  it('keeps only the story frames that failed', () => {
+    const job = makeJob({ targets: ['STORIES'] });
+    const update = nextJobState(
+      job,
+      {
+        posts: [
+          post('STORIES', { frame: 0, postId: 'p1' }),
+          post('STORIES', { frame: 1, error: 'Upload failed' }),
+          post('STORIES', { frame: 2, postId: 'p3' }),
+        ],
+      },
+      START
+    );
+    expect(update).toMatchObject({ status: 'scheduled', targets: ['STORIES'], storyFrames: [1] });
+  });
+
+  it('keeps the remaining story frames when a failure does not say which frame it was', () => {
+    const job = makeJob({ targets: ['STORIES'], storyFrames: [1, 2] });
+    const update = nextJobState(job, { posts: [post('STORIES', { error: 'Account not found' })] }, START);
+    expect(update.storyFrames).toEqual([1, 2]);
+  });
+});
+
+describe('runDuePublishJobs', () => {
+  it('publishes due jobs and leaves the others for later', async () => {
+    const store = memoryStore([
+      makeJob({ id: 'due', attempts: 0 }),
+      makeJob({ id: 'later', attempts: 0, runAt: new Date(START.getTime() + MINUTE).toISOString() }),
+    ]);
+    const publish = vi.fn(async (job: PublishJob) => ({ posts: [post('FEED', { postId: `${job.id}-post` })] }));
+    const onSettled = vi.fn(async () => {});
+
+    const processed = await runDuePublishJobs({ store, publish, clock: fakeClock(START), onSettled });
+
+    expect(processed).toEqual([{ jobId: 'due', status: 'published' }]);
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(onSettled).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'due', attempts: 1 }),
+      expect.objectContaining({ status: 'published' })
+    );
+    expect(store.get('later').status).toBe('scheduled');
+  });
+
+  it('publishes a job once when two workers run at the same time', async () => {
+    const store = memoryStore([makeJob({ attempts: 0 })]);
+    const publish = vi.fn(async () => ({ posts: [post('FEED', { postId: 'p1' })] }));
+    const clock = fakeClock(START);
+
+    await Promise.all([
+      runDuePublishJobs({ store, publish, clock }),
+      runDuePublishJobs({ store, publish, clock }),
+    ]);
+
+    expect(publish).toHaveBeenCalledTimes(1);
+    expect(store.get('job-1')).toMatchObject({ status: 'published', attempts: 1 });
+  });
+
+  it('picks a job up again once the lease of a worker that died has expired', async () => {
+    const store = memoryStore([makeJob({ attempts: 0 })]);
+    const publish = vi.fn(async () => ({ posts: [post('FEED', { postId: 'p1' })] }));
+    const clock = fakeClock(START);
+
+    // A worker claims the job and dies before recording the outcome.
+    await store.claim('job-1', START, new Date(START.getTime() + 10 * MINUTE));
+
+    clock.advance(5 * MINUTE);
+    expect(await runDuePublishJobs({ store, publish, clock })).toEqual([]);
+
+    clock.advance(5 * MINUTE);
+    expect(await runDuePublishJobs({ store, publish, clock })).toEqual([{ jobId: 'job-1', status: 'published' }]);
+    expect(store.get('job-1').attempts).toBe(2);
+  });
+
+  it('schedules a retry when publishing throws', async () => {
+    const store = memoryStore([makeJob({ attempts: 0 })]);
+    const clock = fakeClock(START);
+
+    await runDuePublishJobs({
+      store,
+      publish: async () => {
+        throw new Error('Graph API unavailable');
+      },
+      clock,
+    });
+
+    expect(store.get('job-1')).toMatchObject({
+      status: 'scheduled',
+      attempts: 1,
+      lastError: 'Graph API unavailable',
+      runAt: new Date(START.getTime() + MINUTE).toISOString(),
+    });
+  });
+});
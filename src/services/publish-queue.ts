@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Durable queue for scheduled Instagram publishing.
+ *
+ * Jobs live in the `publishJobs` Firestore collection and hold the caption and
+ * hashtags of the ad they publish; its media is read from the ad when the job
+ * runs. A worker (see `src/app/api/publish-jobs/run/route.ts`) periodically
+ * calls `runDuePublishJobs`, which claims every job whose `runAt` has passed,
+ * publishes it and records the outcome. Failed targets are retried with
+ * exponential backoff until `maxAttempts` is reached.
+ *
+ * The clock, the job store and the publish function are injected so the job
+ * model can be exercised with a fake clock and a stubbed Graph API.
+ */
+import { FieldValue, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import type {
+  HashtagPlacement,
+  PublishedPost,
+  PublishJob,
+  PublishJobContent,
+  PublishJobStatus,
+  PublishTarget,
+} from '@/lib/types';
+
+const COLLECTION = 'publishJobs';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/** How long a claimed job stays locked before another worker may pick it up again. */
+const LEASE_MS = 10 * 60 * 1000;
+
+/** Delay before the first retry; doubled for every further attempt. */
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+const MAX_JOBS_PER_RUN = 10;
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+/** Publishes a job's content and reports the outcome per target. */
+export type PublishFn = (job: PublishJob) => Promise<{ posts: PublishedPost[] }>;
+
+/** Fields the worker changes on a job after an attempt. */
+export type PublishJobUpdate = Partial<
+  Pick<PublishJob, 'status' | 'targets' | 'storyFrames' | 'runAt' | 'attempts' | 'lastError' | 'posts'>
+>;
+
+export interface PublishJobStore {
+  /** Returns scheduled or lease-expired jobs whose `runAt` is at or before `now`. */
+  findDue(now: Date, max: number): Promise<PublishJob[]>;
+  /**
+   * Atomically marks a due job as processing and extends its `runAt` by the
+   * lease. Returns the claimed job, or null if another worker got it first.
+   */
+  claim(jobId: string, now: Date, leaseUntil: Date): Promise<PublishJob | null>;
+  update(jobId: string, update: PublishJobUpdate): Promise<void>;
+}
+
+export type NewPublishJob = {
+  userId: string;
+  adId: string;
+  accountId: string;
+  locale?: string;
+  content: PublishJobContent;
+  targets: PublishTarget[];
+  hashtagPlacement: HashtagPlacement;
+  scheduledAt: Date;
+  maxAttempts?: number;
+};
+
+/**
+ * Returns the delay before retrying a job that has failed `attempts` times.
+ */
+export function retryDelayMs(attempts: number): number {
+  return RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+}
+
+/**
+ * Works out the job's next state from the result of a publish attempt.
+ * Targets that succeeded are dropped so a retry only republishes the ones
+ * that failed. For stories the same goes for each frame, so frames that are
+ * already live are not posted twice.
+ */
+export function nextJobState(
+  job: PublishJob,
+  result: { posts: PublishedPost[] } | { error: string },
+  now: Date
+): PublishJobUpdate {
+  const posts = 'posts' in result ? [...job.posts, ...result.posts] : job.posts;
+  const failedTargets =
+    'posts' in result
+      ? job.targets.filter(target =>
+          result.posts.some(post => post.target === target && post.error)
+        )
+      : job.targets;
+  // Story frames that went out are not posted again. When the attempt failed
+  // as a whole, or a frame failed without saying which one it was, the frames
+  // still to publish stay as they were.
+  const storyErrors =
+    'posts' in result ? result.posts.filter(post => post.target === 'STORIES' && post.error) : [];
+  const storyFrames =
+    storyErrors.length > 0 && storyErrors.every(post => post.frame !== undefined)
+      ? { storyFrames: storyErrors.map(post => post.frame!) }
+      : job.storyFrames
+        ? { storyFrames: job.storyFrames }
+        : {};
+
+  if (failedTargets.length === 0) {
+    return { status: 'published', targets: [], posts, lastError: '' };
+  }
+
+  const lastError =
+    'error' in result
+      ? result.error
+      : result.posts
+          .filter(post => post.error)
+          .map(post => `${post.target}: ${post.error}`)
+          .join('\n');
+
+  if (job.attempts >= job.maxAttempts) {
+    return { status: 'failed', targets: failedTargets, ...storyFrames, posts, lastError };
+  }
+
+  return {
+    status: 'scheduled',
+    targets: failedTargets,
+    ...storyFrames,
+    posts,
+    lastError,
+    runAt: new Date(now.getTime() + retryDelayMs(job.attempts)).toISOString(),
+  };
+}
+
+/**
+ * Claims and publishes every job that is due. Returns the IDs of the jobs
+ * that were processed along with their resulting status.
+ */
+export async function runDuePublishJobs({
+  store,
+  publish,
+  clock = systemClock,
+  onSettled,
+}: {
+  store: PublishJobStore;
+  publish: PublishFn;
+  clock?: Clock;
+  /** Called after each attempt with the job and the state it moved to. */
+  onSettled?: (job: PublishJob, update: PublishJobUpdate) => Promise<void>;
+}): Promise<{ jobId: string; status: PublishJobStatus }[]> {
+  const now = clock.now();
+  const dueJobs = await store.findDue(now, MAX_JOBS_PER_RUN);
+  const processed: { jobId: string; status: PublishJobStatus }[] = [];
+
+  for (const dueJob of dueJobs) {
+    const job = await store.claim(dueJob.id, now, new Date(now.getTime() + LEASE_MS));
+    if (!job) {
+      continue;
+    }
+
+    let result: { posts: PublishedPost[] } | { error: string };
+    try {
+      result = await publish(job);
+    } catch (error) {
+      result = {
+        error: error instanceof Error ? error.message : 'An unknown error occurred.',
+      };
+    }
+
+    const update = nextJobState(job, result, clock.now());
+    await store.update(job.id, update);
+    if (onSettled) {
+      await onSettled(job, update);
+    }
+    console.log(`Publish job ${job.id} finished attempt ${job.attempts} with status: ${update.status}`);
+    processed.push({ jobId: job.id, status: update.status! });
+  }
+
+  return processed;
+}
+
+function toPublishJob(id: string, data: any): PublishJob {
+  return {
+    id,
+    userId: data.userId,
+    adId: data.adId,
+    accountId: data.accountId,
+    locale: data.locale || undefined,
+    content: data.content,
+    targets: data.targets,
+    storyFrames: data.storyFrames || undefined,
+    hashtagPlacement: data.hashtagPlacement,
+    status: data.status,
+    scheduledAt: data.scheduledAt.toDate().toISOString(),
+    runAt: data.runAt.toDate().toISOString(),
+    attempts: data.attempts,
+    maxAttempts: data.maxAttempts,
+    lastError: data.lastError || undefined,
+    posts: data.posts || [],
+    createdAt: data.createdAt?.toDate().toISOString() || new Date().toISOString(),
+  };
+}
+
+/**
+ * Adds a new job to the queue and returns its ID.
+ */
+export async function enqueuePublishJob(db: Firestore, job: NewPublishJob): Promise<string> {
+  const scheduledAt = Timestamp.fromDate(job.scheduledAt);
+  const ref = await db.collection(COLLECTION).add({
+    userId: job.userId,
+    adId: job.adId,
+    accountId: job.accountId,
+    locale: job.locale ?? null,
+    content: { caption: job.content.caption, hashtags: job.content.hashtags },
+    targets: job.targets,
+    hashtagPlacement: job.hashtagPlacement,
+    status: 'scheduled',
+    scheduledAt,
+    runAt: scheduledAt,
+    attempts: 0,
+    maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    posts: [],
+    createdAt: FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * Moves a job that has not started yet to a new time. Returns false if the
+ * job does not belong to the user or is no longer waiting to run.
+ */
+export async function reschedulePublishJob(
+  db: Firestore,
+  jobId: string,
+  userId: string,
+  scheduledAt: Date
+): Promise<boolean> {
+  const jobRef = db.collection(COLLECTION).doc(jobId);
+  return db.runTransaction(async transaction => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) {
+      return false;
+    }
+    const job = toPublishJob(jobDoc.id, jobDoc.data());
+    if (job.userId !== userId || job.status !== 'scheduled' || job.attempts > 0) {
+      return false;
+    }
+    const timestamp = Timestamp.fromDate(scheduledAt);
+    transaction.update(jobRef, {
+      scheduledAt: timestamp,
+      runAt: timestamp,
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  });
+}
+
+/**
+ * Removes a job that has not started yet. Jobs that have already finished
+ * count as cancelled too. Returns false if the job does not belong to the user
+ * or is being published or retried.
+ */
+export async function cancelPublishJob(db: Firestore, jobId: string, userId: string): Promise<boolean> {
+  const jobRef = db.collection(COLLECTION).doc(jobId);
+  return db.runTransaction(async transaction => {
+    const jobDoc = await transaction.get(jobRef);
+    if (!jobDoc.exists) {
+      return true;
+    }
+    const job = toPublishJob(jobDoc.id, jobDoc.data());
+    if (job.userId !== userId) {
+      return false;
+    }
+    if (job.status === 'published' || job.status === 'failed') {
+      return true;
+    }
+    if (job.status !== 'scheduled' || job.attempts > 0) {
+      return false;
+    }
+    transaction.delete(jobRef);
+    return true;
+  });
+}
+
+/**
+ * A `PublishJobStore` backed by the `publishJobs` Firestore collection.
+ */
+export function createFirestorePublishJobStore(db: Firestore): PublishJobStore {
+  return {
+    async findDue(now, max) {
+      const snapshot = await db
+        .collection(COLLECTION)
+        .where('status', 'in', ['scheduled', 'processing'])
+        .where('runAt', '<=', Timestamp.fromDate(now))
+        .orderBy('runAt')
+        .limit(max)
+        .get();
+      return snapshot.docs.map(jobDoc => toPublishJob(jobDoc.id, jobDoc.data()));
+    },
+
+    async claim(jobId, now, leaseUntil) {
+      const jobRef = db.collection(COLLECTION).doc(jobId);
+      return db.runTransaction(async transaction => {
+        const jobDoc = await transaction.get(jobRef);
+        if (!jobDoc.exists) {
+          return null;
+        }
+        const job = toPublishJob(jobDoc.id, jobDoc.data());
+        const isClaimable = job.status === 'scheduled' || job.status === 'processing';
+        if (!isClaimable || new Date(job.runAt) > now) {
+          return null;
+        }
+        const attempts = job.attempts + 1;
+        transaction.update(jobRef, {
+          status: 'processing',
+          runAt: Timestamp.fromDate(leaseUntil),
+          attempts,
+          updatedAt: FieldValue.serverTimestamp(),
+        });
+        return { ...job, status: 'processing' as const, runAt: leaseUntil.toISOString(), attempts };
+      });
+    },
+
+    async update(jobId, update) {
+      const { runAt, ...rest } = update;
+      await db.collection(COLLECTION).doc(jobId).update({
+        ...rest,
+        ...(runAt ? { runAt: Timestamp.fromDate(new Date(runAt)) } : {}),
+        updatedAt: FieldValue.serverTimestamp(),
+      });
+    },
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * @fileoverview Extracts poster frames and thumbnails from videos with
+ * ffmpeg, and stores them next to the video in Cloud Storage. Also samples
+ * frames for the model to look at.
+ *
+ * The ffmpeg binary comes from `ffmpeg-static`; set FFMPEG_PATH to use a
+ * different one.
+ */
+import { spawn } from 'node:child_process';
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import ffmpegStatic from 'ffmpeg-static';
+import type { Storage } from 'firebase-admin/storage';
+import type { VideoThumbnail } from '@/lib/types';
+
+type Bucket = ReturnType<Storage['bucket']>;
+
+/** Widths of the thumbnails made from a poster frame, smallest first. */
+export const THUMBNAIL_WIDTHS = [320, 640];
+
+export type VideoPoster = {
+  posterPath: string;
+  posterUrl: string;
+  thumbnails: VideoThumbnail[];
+};
+
+function ffmpegPath(): string {
+  const binary = process.env.FFMPEG_PATH || ffmpegStatic;
+  if (!binary) {
+    throw new Error('ffmpeg is not available on this platform. Set FFMPEG_PATH to an ffmpeg binary.');
+  }
+  return binary;
+}
+
+/** Runs ffmpeg with `args` and rejects with its error output if it fails. */
+export function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath(), ['-hide_banner', '-loglevel', 'error', '-y', ...args]);
+    let stderr = '';
+    ffmpeg.stderr.on('data', chunk => (stderr += chunk));
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', code =>
+      code === 0 ? resolve() : reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`))
+    );
+  });
+}
+
+/**
+ * Extracts the frame at `atSeconds` from a video file as a JPEG, plus a
+ * JPEG thumbnail for each of `widths` (keeping the aspect ratio).
+ * @param videoFile Path of the video on the local disk.
+ * @returns The poster frame and the thumbnails, in the order of `widths`.
+ */
+export async function extractPosterFrame(
+  videoFile: string,
+  atSeconds: number,
+  widths: number[] = THUMBNAIL_WIDTHS
+): Promise<{ poster: Buffer; thumbnails: { width: number; image: Buffer }[] }> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'poster-'));
+  try {
+    const posterFile = path.join(workDir, 'poster.jpg');
+    // Seeking before the input is fast; ffmpeg snaps to the nearest frame.
+    await runFfmpeg([
+      '-ss', Math.max(atSeconds, 0).toFixed(3),
+      '-i', videoFile,
+      '-frames:v', '1',
+      '-q:v', '2',
+      posterFile,
+    ]);
+
+    const thumbnails = [];
+    for (const width of widths) {
+      const thumbnailFile = path.join(workDir, `thumb-${width}.jpg`);
+      await runFfmpeg(['-i', posterFile, '-vf', `scale=${width}:-2`, '-q:v', '4', thumbnailFile]);
+      thumbnails.push({ width, image: await readFile(thumbnailFile) });
+    }
+
+    return { poster: await readFile(posterFile), thumbnails };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Reads the length and size of a video or image from the header ffmpeg
+ * prints for its input. Fields ffmpeg does not report are null.
+ */
+export function probeMedia(
+  file: string
+): Promise<{ durationSeconds: number | null; width: number | null; height: number | null }> {
+  return new Promise((resolve, reject) => {
+    // Without an output ffmpeg only describes the input, then exits with an error.
+    const ffmpeg = spawn(ffmpegPath(), ['-hide_banner', '-i', file]);
+    let stderr = '';
+    ffmpeg.stderr.on('data', chunk => (stderr += chunk));
+    ffmpeg.on('error', reject);
+    ffmpeg.on('close', () => {
+      const duration = /Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/.exec(stderr);
+      const size = /Stream #.*Video: .*?\b(\d{2,5})x(\d{2,5})\b/.exec(stderr);
+      resolve({
+        durationSeconds: duration
+          ? Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3])
+          : null,
+        width: size ? Number(size[1]) : null,
+        height: size ? Number(size[2]) : null,
+      });
+    });
+  });
+}
+
+/**
+ * Takes `count` frames spread evenly over a video, e.g. for the model to see
+ * what the video shows.
+ * @param video The video file's contents.
+ * @param width The width the frames are scaled to, keeping the aspect ratio.
+ * @returns The frames as JPEGs, in the order they appear.
+ */
+export async function sampleVideoFrames(video: Buffer, count: number, width = 512): Promise<Buffer[]> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'frames-'));
+  try {
+    const videoFile = path.join(workDir, 'video');
+    await writeFile(videoFile, video);
+    const duration = (await probeMedia(videoFile)).durationSeconds ?? 0;
+
+    const frames: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      // Frames from the middle of each slice avoid black lead-in and fade-out frames.
+      const atSeconds = (duration * (i + 0.5)) / count;
+      const frameFile = path.join(workDir, `frame-${i}.jpg`);
+      await runFfmpeg([
+        '-ss', atSeconds.toFixed(3),
+        '-i', videoFile,
+        '-frames:v', '1',
+        '-vf', `scale=${width}:-2`,
+        '-q:v', '4',
+        frameFile,
+      ]);
+      frames.push(await readFile(frameFile));
+    }
+    return frames;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Saves a file to the bucket with a Firebase download token, the same way the
+ * client SDK does, and returns its download URL.
+ */
+async function saveWithDownloadUrl(bucket: Bucket, filePath: string, data: Buffer, contentType: string) {
+  const token = randomUUID();
+  await bucket.file(filePath).save(data, {
+    contentType,
+    metadata: { metadata: { firebaseStorageDownloadTokens: token } },
+  });
+  const host = process.env.FIREBASE_STORAGE_EMULATOR_HOST
+    ? `http://${process.env.FIREBASE_STORAGE_EMULATOR_HOST}`
+    : 'https://firebasestorage.googleapis.com';
+  return `${host}/v0/b/${bucket.name}/o/${encodeURIComponent(filePath)}?alt=media&token=${token}`;
+}
+
+/**
+ * Creates the poster frame and thumbnails of a video stored in Cloud Storage
+ * and uploads them next to it, e.g. `0.mp4` gets `0-poster.jpg`,
+ * `0-thumb-320.jpg` and `0-thumb-640.jpg`.
+ * @param videoPath The video's path in the bucket.
+ * @param atSeconds Where in the video to take the frame.
+ */
+export async function createVideoPoster(
+  bucket: Bucket,
+  videoPath: string,
+  atSeconds = 0
+): Promise<VideoPoster> {
+  const workDir = await mkdtemp(path.join(tmpdir(), 'video-'));
+  try {
+    const videoFile = path.join(workDir, path.basename(videoPath));
+    await bucket.file(videoPath).download({ destination: videoFile });
+    const { poster, thumbnails } = await extractPosterFrame(videoFile, atSeconds);
+
+    const basePath = videoPath.replace(/\.[^./]+$/, '');
+    const posterPath = `${basePath}-poster.jpg`;
+    return {
+      posterPath,
+      posterUrl: await saveWithDownloadUrl(bucket, posterPath, poster, 'image/jpeg'),
+      thumbnails: await Promise.all(
+        thumbnails.map(async ({ width, image }) => {
+          const thumbnailPath = `${basePath}-thumb-${width}.jpg`;
+          return {
+            width,
+            path: thumbnailPath,
+            url: await saveWithDownloadUrl(bucket, thumbnailPath, image, 'image/jpeg'),
+          };
+        })
+      ),
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
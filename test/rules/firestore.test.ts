@@ -0,0 +1,185 @@
+import { readFileSync } from 'node:fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-instagenius',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearFirestore();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    const db = context.firestore();
+    await db.doc('users/alice').set({ uid: 'alice', email: 'alice@example.com' });
+    await db.doc('users/alice/connectedAccounts/ig-1').set({
+      label: 'Main account',
+      instagramBusinessAccountId: 'ig-1',
+      instagramAccessTokenEncrypted: 'ciphertext',
+    });
+    await db.doc('users/alice/brandProfiles/brand-1').set({ brandName: 'Acme' });
+    await db.doc('users/alice/hashtagSets/set-1').set({ name: 'Summer', hashtags: ['#summer'] });
+    await db.doc('ads/ad-1').set(ad('alice', firebase.firestore.Timestamp.now()));
+    await db.doc('mediaInsights/alice_post-1').set({ userId: 'alice', postId: 'post-1', reach: 10 });
+    await db.doc('publishJobs/job-1').set({ userId: 'alice', status: 'scheduled' });
+    await db.doc('oauthStates/state-1').set({ userId: 'alice' });
+    await db.doc('oauthConnections/connection-1').set({ userId: 'alice', accessToken: 'ciphertext' });
+  });
+});
+
+function ad(userId: string, createdAt: unknown) {
+  return {
+    userId,
+    prompt: 'A summer sale',
+    caption: 'Sun is out, prices are down.',
+    hashtags: ['#summer'],
+    imageUrl: 'https://example.com/ad.png',
+    status: 'draft',
+    createdAt,
+  };
+}
+
+function media(storagePath: string, posterPath?: string) {
+  return {
+    storagePath,
+    downloadUrl: 'https://example.com/file',
+    contentType: 'image/png',
+    mediaType: 'image',
+    ...(posterPath ? { posterPath } : {}),
+  };
+}
+
+function as(userId: string) {
+  return testEnv.authenticatedContext(userId).firestore();
+}
+
+describe('users', () => {
+  it('lets a user read and update their own document', async () => {
+    await assertSucceeds(as('alice').doc('users/alice').get());
+    await assertSucceeds(as('alice').doc('users/alice').update({ email: 'new@example.com' }));
+  });
+
+  it("keeps other users' documents private", async () => {
+    await assertFails(as('bob').doc('users/alice').get());
+    await assertFails(as('bob').doc('users/alice').update({ email: 'bob@example.com' }));
+    await assertFails(testEnv.unauthenticatedContext().firestore().doc('users/alice').get());
+  });
+});
+
+describe('Instagram credentials', () => {
+  it('lets a user list their connected accounts', async () => {
+    await assertSucceeds(as('alice').doc('users/alice/connectedAccounts/ig-1').get());
+  });
+
+  it('never lets the client write an account or its token', async () => {
+    await assertFails(
+      as('alice').doc('users/alice/connectedAccounts/ig-2').set({ instagramAccessToken: 'token' })
+    );
+    await assertFails(
+      as('alice').doc('users/alice/connectedAccounts/ig-1').update({ instagramAccessTokenEncrypted: 'forged' })
+    );
+    await assertFails(as('alice').doc('users/alice').update({ instagramAccessToken: 'token' }));
+  });
+
+  it("keeps other users' accounts private", async () => {
+    await assertFails(as('bob').doc('users/alice/connectedAccounts/ig-1').get());
+    await assertFails(as('bob').collection('users/alice/connectedAccounts').get());
+  });
+
+  it('keeps pending Facebook logins away from every client', async () => {
+    await assertFails(as('alice').doc('oauthStates/state-1').get());
+    await assertFails(as('alice').doc('oauthConnections/connection-1').get());
+  });
+});
+
+describe('ads', () => {
+  it('lets a user create, read, update and delete their own ads', async () => {
+    const db = as('alice');
+    await assertSucceeds(db.doc('ads/ad-2').set(ad('alice', firebase.firestore.FieldValue.serverTimestamp())));
+    await assertSucceeds(db.doc('ads/ad-1').get());
+    await assertSucceeds(db.doc('ads/ad-1').update({ caption: 'Prices are down.' }));
+    await assertSucceeds(db.doc('ads/ad-1').delete());
+  });
+
+  it('rejects ads that fail validation', async () => {
+    await assertFails(
+      as('alice')
+        .doc('ads/ad-2')
+        .set({ ...ad('alice', firebase.firestore.FieldValue.serverTimestamp()), status: 'live' })
+    );
+    await assertFails(as('alice').doc('ads/ad-1').update({ userId: 'bob' }));
+  });
+
+  it('leaves scheduling and publishing to the server', async () => {
+    const db = as('alice');
+    const created = ad('alice', firebase.firestore.FieldValue.serverTimestamp());
+    await assertFails(db.doc('ads/ad-2').set({ ...created, status: 'published' }));
+    await assertFails(db.doc('ads/ad-2').set({ ...created, posts: [{ accountId: 'ig-1', target: 'FEED', postId: 'p1' }] }));
+    await assertFails(db.doc('ads/ad-1').update({ status: 'scheduled' }));
+    await assertFails(db.doc('ads/ad-1').update({ scheduledAt: firebase.firestore.Timestamp.now() }));
+    await assertFails(db.doc('ads/ad-1').update({ publishedAt: firebase.firestore.Timestamp.now() }));
+    await assertFails(db.doc('ads/ad-1').update({ publishJobIds: ['job-1'] }));
+    await assertFails(db.doc('ads/ad-1').update({ posts: [{ accountId: 'ig-1', target: 'FEED', postId: 'p1' }] }));
+  });
+
+  it("only accepts media stored in the user's own folder", async () => {
+    const db = as('alice');
+    const created = ad('alice', firebase.firestore.FieldValue.serverTimestamp());
+    await assertSucceeds(db.doc('ads/ad-2').set({ ...created, media: [media('users/alice/ads/ad-2/0.png')] }));
+    await assertFails(db.doc('ads/ad-3').set({ ...created, media: [media('users/bob/ads/ad-9/0.png')] }));
+    await assertFails(
+      db.doc('ads/ad-3').set({
+        ...created,
+        media: [media('users/alice/ads/ad-3/0.png'), media('users/alice/ads/ad-3/1.png', 'users/bob/ads/ad-9/poster.jpg')],
+      })
+    );
+    await assertFails(db.doc('ads/ad-1').update({ media: [media('users/bob/ads/ad-9/0.png')] }));
+  });
+
+  it("denies access to other users' ads", async () => {
+    const db = as('bob');
+    await assertFails(db.doc('ads/ad-1').get());
+    await assertFails(db.doc('ads/ad-1').update({ caption: 'Mine now' }));
+    await assertFails(db.doc('ads/ad-1').delete());
+    await assertFails(db.doc('ads/ad-2').set(ad('alice', firebase.firestore.FieldValue.serverTimestamp())));
+  });
+});
+
+describe('server-managed data', () => {
+  it('lets a user read but not write their brand profiles, hashtag sets and insights', async () => {
+    const db = as('alice');
+    await assertSucceeds(db.doc('users/alice/brandProfiles/brand-1').get());
+    await assertSucceeds(db.doc('users/alice/hashtagSets/set-1').get());
+    await assertSucceeds(db.doc('mediaInsights/alice_post-1').get());
+    await assertFails(db.doc('users/alice/brandProfiles/brand-1').update({ brandName: 'Other' }));
+    await assertFails(db.doc('users/alice/hashtagSets/set-1').update({ hashtags: ['#banned'] }));
+    await assertFails(db.doc('mediaInsights/alice_post-1').update({ reach: 1000 }));
+  });
+
+  it("keeps other users' brand profiles, hashtag sets and insights private", async () => {
+    const db = as('bob');
+    await assertFails(db.doc('users/alice/brandProfiles/brand-1').get());
+    await assertFails(db.doc('users/alice/hashtagSets/set-1').get());
+    await assertFails(db.doc('mediaInsights/alice_post-1').get());
+  });
+
+  it('keeps publish jobs away from every client', async () => {
+    await assertFails(as('alice').doc('publishJobs/job-1').get());
+    await assertFails(as('alice').doc('publishJobs/job-2').set({ userId: 'alice', status: 'scheduled' }));
+  });
+});
@@ -0,0 +1,63 @@
+import { readFileSync } from 'node:fs';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+
+const IMAGE = new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+const ALICE_IMAGE = 'users/alice/ads/ad-1/0.png';
+
+let testEnv: RulesTestEnvironment;
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-instagenius',
+    storage: { rules: readFileSync('storage.rules', 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv.cleanup();
+});
+
+beforeEach(async () => {
+  await testEnv.clearStorage();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await context.storage().ref(ALICE_IMAGE).put(IMAGE, { contentType: 'image/png' });
+  });
+});
+
+function as(userId: string) {
+  return testEnv.authenticatedContext(userId).storage();
+}
+
+describe('ad media', () => {
+  it('lets a user upload, read and delete files in their own folder', async () => {
+    const storage = as('alice');
+    await assertSucceeds(
+      storage.ref('users/alice/ads/ad-2/0.png').put(IMAGE, { contentType: 'image/png' }).then()
+    );
+    await assertSucceeds(storage.ref(ALICE_IMAGE).getMetadata());
+    await assertSucceeds(storage.ref(ALICE_IMAGE).delete());
+  });
+
+  it('only accepts images and videos', async () => {
+    await assertFails(
+      as('alice').ref('users/alice/ads/ad-2/notes.txt').put(IMAGE, { contentType: 'text/plain' }).then()
+    );
+  });
+
+  it("denies access to other users' files", async () => {
+    const storage = as('bob');
+    await assertFails(storage.ref(ALICE_IMAGE).getMetadata());
+    await assertFails(storage.ref(ALICE_IMAGE).delete());
+    await assertFails(storage.ref('users/alice/ads/ad-2/0.png').put(IMAGE, { contentType: 'image/png' }).then());
+  });
+
+  it('denies signed-out visitors', async () => {
+    await assertFails(testEnv.unauthenticatedContext().storage().ref(ALICE_IMAGE).getMetadata());
+  });
+});
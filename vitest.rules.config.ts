@@ -0,0 +1,11 @@
+import {defineConfig} from 'vitest/config';
+
+// Security rules tests. They need the Firestore and Storage emulators, so run
+// them with `npm run test:rules` rather than on their own.
+export default defineConfig({
+  test: {
+    include: ['test/rules/**/*.test.ts'],
+    // Both files talk to the same emulators.
+    fileParallelism: false,
+  },
+});